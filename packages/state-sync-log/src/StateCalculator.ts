@@ -1,14 +1,49 @@
 import type * as Y from "yjs"
 import { type CheckpointRecord, type ClientWatermarks } from "./checkpoints"
-import { applyTxImmutable } from "./draft"
+import { type ApplyTxResult, tryApplyTxImmutable } from "./draft"
 import { JSONObject } from "./json"
-import { Op, ValidateFn } from "./operations"
+import { Op, TxRejection, ValidateFn } from "./operations"
+import { rebaseOps } from "./rebase"
 import { computeReconcileOps } from "./reconcile"
 import { SortedTxEntry } from "./SortedTxEntry"
-import { TxRecord } from "./TxRecord"
+import { AppliedTx, TxRecord } from "./TxRecord"
 import { compareTxTimestamps, type TxTimestamp, type TxTimestampKey } from "./txTimestamp"
 import { lazy } from "./utils"
 
+/**
+ * Outcome of applying a tx during state calculation.
+ */
+export type TxApplyResult = "applied" | "rejected"
+
+/**
+ * Result of a state calculation.
+ */
+export type CalculatedState = {
+  state: JSONObject
+  /** Lazily returns the ops that changed the state from the previous calculation */
+  getAppliedOps: () => readonly Op[]
+  /** Lazily returns the txs newly applied since the previous calculation */
+  getAppliedTxs: () => readonly AppliedTx[]
+}
+
+/**
+ * Result of applying a tx entry with the calculator's rules.
+ */
+export type CalculatorApplyTxResult = ApplyTxResult<JSONObject> & {
+  /** The ops of the tx, rebased over concurrent txs when rebasing is enabled */
+  ops: readonly Op[]
+}
+
+/**
+ * Options for the StateCalculator.
+ */
+export type StateCalculatorOptions = {
+  /**
+   * Rebase the array indexes of each tx over the splices of concurrent txs (see rebaseOps).
+   */
+  rebaseArrayIndexes?: boolean
+}
+
 /**
  * Checks if a transaction is covered by the checkpoint watermarks.
  */
@@ -61,14 +96,49 @@ export class StateCalculator {
    */
   private appliedTxKeys: Set<TxTimestampKey> = new Set()
 
+  /**
+   * Outcome of each LOGICAL tx (keyed by dedup key) processed since the last full recalculation.
+   * Txs skipped because they are covered by the base checkpoint are not tracked here.
+   */
+  private txResults: Map<TxTimestampKey, TxApplyResult> = new Map()
+
+  /** Rejection reasons of the rejected txs in txResults (keyed by dedup key) */
+  private txRejections: Map<TxTimestampKey, TxRejection> = new Map()
+
+  /**
+   * Incremented whenever the sequence of txs (or the base checkpoint) changes in a way other
+   * than appending txs at the end. Used to invalidate derived caches (e.g. time travel snapshots).
+   */
+  private structureVersion = 0
+
   /** Max clock seen from any transaction (for Lamport clock updates) */
   private maxSeenClock = 0
 
+  /** Max clock seen from the transactions of each client */
+  private maxSeenClockByClient: Map<string, number> = new Map()
+
+  /**
+   * Ops applied by each LOGICAL tx (keyed by dedup key) processed since the last full
+   * recalculation, only tracked when rebasing array indexes.
+   */
+  private appliedOps: Map<TxTimestampKey, readonly Op[]> = new Map()
+
   /** Validation function (optional) */
   private validateFn?: ValidateFn<JSONObject>
 
-  constructor(validateFn?: ValidateFn<JSONObject>) {
+  /** Whether to rebase the array indexes of concurrent txs */
+  private rebaseArrayIndexes: boolean
+
+  constructor(validateFn?: ValidateFn<JSONObject>, options?: StateCalculatorOptions) {
     this.validateFn = validateFn
+    this.rebaseArrayIndexes = options?.rebaseArrayIndexes ?? false
+  }
+
+  /**
+   * Whether the array indexes of concurrent txs are rebased.
+   */
+  isRebasingArrayIndexes(): boolean {
+    return this.rebaseArrayIndexes
   }
 
   /**
@@ -81,6 +151,7 @@ export class StateCalculator {
     }
 
     this.baseCheckpoint = checkpoint
+    this.structureVersion++
     this.invalidate()
     return true
   }
@@ -99,6 +170,7 @@ export class StateCalculator {
   rebuildFromYjs(yTx: Y.Map<TxRecord>): void {
     this.sortedTxs = []
     this.sortedTxsMap.clear()
+    this.structureVersion++
 
     // Collect all entries, build the map and max clock
     for (const key of yTx.keys()) {
@@ -106,9 +178,7 @@ export class StateCalculator {
       this.sortedTxs.push(entry)
 
       this.sortedTxsMap.set(entry.txTimestampKey, entry)
-      if (entry.txTimestamp.clock > this.maxSeenClock) {
-        this.maxSeenClock = entry.txTimestamp.clock
-      }
+      this.trackClock(entry.txTimestamp)
     }
 
     // Sort once - O(n log n)
@@ -133,9 +203,7 @@ export class StateCalculator {
     const ts = entry.txTimestamp
 
     // Update max seen clock for Lamport clock mechanism
-    if (ts.clock > this.maxSeenClock) {
-      this.maxSeenClock = ts.clock
-    }
+    this.trackClock(ts)
 
     const sortedTxs = this.sortedTxs
 
@@ -156,6 +224,10 @@ export class StateCalculator {
     sortedTxs.splice(insertIndex, 0, entry)
     this.sortedTxsMap.set(key, entry)
 
+    if (insertIndex < sortedTxs.length - 1) {
+      this.structureVersion++
+    }
+
     // Check if this invalidates our cached state
     // If we inserted before or at the last applied index, we need to recalculate
     if (this.lastAppliedIndex !== null && insertIndex <= this.lastAppliedIndex) {
@@ -207,6 +279,10 @@ export class StateCalculator {
       }
     }
 
+    if (removedCount > 0) {
+      this.structureVersion++
+    }
+
     // Check if this invalidates our cached state
     if (this.lastAppliedIndex !== null && minRemovedIndex <= this.lastAppliedIndex) {
       this.invalidate()
@@ -259,12 +335,13 @@ export class StateCalculator {
   }
 
   /**
-   * Calculates and returns the current state, along with a lazy getter for ops that changed from the previous state.
+   * Calculates and returns the current state, along with lazy getters for the ops and txs
+   * that changed from the previous state.
    *
    * - If lastAppliedIndex is null: full recalculation from checkpoint
    * - If lastAppliedIndex >= -1: incremental apply from lastAppliedIndex + 1
    */
-  calculateState(): { state: JSONObject; getAppliedOps: () => readonly Op[] } {
+  calculateState(): CalculatedState {
     const baseState: JSONObject = this.baseCheckpoint?.state ?? {}
     const watermarks = this.baseCheckpoint?.watermarks ?? {}
     const hasWatermarks = Object.keys(watermarks).length > 0
@@ -285,37 +362,44 @@ export class StateCalculator {
     baseState: JSONObject,
     watermarks: ClientWatermarks,
     hasWatermarks: boolean
-  ): { state: JSONObject; getAppliedOps: () => readonly Op[] } {
+  ): CalculatedState {
     const oldState = this.cachedState ?? {}
+    const oldTxResults = this.txResults
 
     // Reset tracking for full recompute
     this.appliedTxKeys.clear()
+    this.txResults = new Map()
+    this.txRejections.clear()
+    this.appliedOps.clear()
     this.lastAppliedIndex = -1
     this.cachedState = baseState
 
     // Delegate to incremental apply to replay all transactions
     // We ignore the returned ops because they represent the operations applied from the base state,
     // whereas we want the diff from the *previous cached state*.
-    // We pass returnOps=false to avoid collecting ops during replay.
-    const { state } = this.incrementalApply(watermarks, hasWatermarks, false)
+    const { state, getAppliedTxs: getReplayedTxs } = this.incrementalApply(
+      watermarks,
+      hasWatermarks
+    )
 
     // Lazy load the reconciliation ops (expensive diff)
-    const getAppliedOps = lazy(() => computeReconcileOps(oldState, state))
+    // The ops are only reported (not emitted), so text splices are safe
+    const getAppliedOps = lazy(() => computeReconcileOps(oldState, state, true))
+
+    // Only report the txs that were not already applied before the recalculation
+    const getAppliedTxs = lazy(() =>
+      getReplayedTxs().filter((tx) => oldTxResults.get(tx.txKey) !== "applied")
+    )
 
-    return { state, getAppliedOps }
+    return { state, getAppliedOps, getAppliedTxs }
   }
 
   /**
    * Incremental apply of transactions from lastAppliedIndex + 1.
-   * @param returnOps If true, collects applied transactions (to lazy compute ops). If false, skips collection.
    */
-  private incrementalApply(
-    watermarks: ClientWatermarks,
-    hasWatermarks: boolean,
-    returnOps = true
-  ): { state: JSONObject; getAppliedOps: () => readonly Op[] } {
+  private incrementalApply(watermarks: ClientWatermarks, hasWatermarks: boolean): CalculatedState {
     let state = this.cachedState as JSONObject
-    const appliedTxs: TxRecord[] = []
+    const appliedTxs: AppliedTx[] = []
     const sortedTxs = this.sortedTxs
     const startIndex = this.lastAppliedIndex! + 1
 
@@ -340,13 +424,21 @@ export class StateCalculator {
       const tx = entry.txRecord
 
       // Apply transaction 1-by-1 to avoid draft context pollution on validation failure
-      const newState = applyTxImmutable(state, tx, this.validateFn)
+      const { state: newState, rejection, ops } = this.applyTx(state, entry)
+
+      if (rejection) {
+        this.txResults.set(dedupKey, "rejected")
+        this.txRejections.set(dedupKey, rejection)
+      } else {
+        this.txResults.set(dedupKey, "applied")
+        if (this.rebaseArrayIndexes) {
+          this.appliedOps.set(dedupKey, ops)
+        }
+      }
 
       if (newState !== state) {
+        appliedTxs.push({ txKey: dedupKey, ops, meta: tx.meta, stateBefore: state })
         state = newState
-        if (returnOps) {
-          appliedTxs.push(tx)
-        }
       }
 
       this.appliedTxKeys.add(dedupKey)
@@ -370,7 +462,110 @@ export class StateCalculator {
       return ops
     })
 
-    return { state, getAppliedOps }
+    return { state, getAppliedOps, getAppliedTxs: () => appliedTxs }
+  }
+
+  /**
+   * Applies a single tx entry to a state immutably, using the calculator's validation rules
+   * (and rebasing its array indexes over concurrent txs when enabled).
+   * The validator context only depends on the entry, so replays (e.g. time travel) validate txs
+   * exactly as they were validated when first applied.
+   * Deduplication and checkpoint skipping are the responsibility of the caller.
+   */
+  applyTx(state: JSONObject, entry: SortedTxEntry): CalculatorApplyTxResult {
+    const tx = entry.txRecord
+    let ops = tx.ops
+    if (this.rebaseArrayIndexes) {
+      const concurrentOps = this.getConcurrentOps(entry)
+      if (concurrentOps.length > 0) {
+        ops = rebaseOps(ops, concurrentOps)
+      }
+    }
+    const validation = this.validateFn && {
+      validateFn: this.validateFn,
+      txKey: entry.dedupTxTimestampKey,
+      txTimestamp: entry.dedupTxTimestamp,
+    }
+    const result = tryApplyTxImmutable(state, ops === tx.ops ? tx : { ...tx, ops }, validation)
+    return { ...result, ops }
+  }
+
+  /**
+   * Gets the ops applied by the txs that were applied before the given one but that its author
+   * had not seen, in application order.
+   * The Lamport clock only rules out that the author had seen txs with a higher clock, so those
+   * are the txs from other clients (in the same epoch) with a clock above the highest remote
+   * clock the author had seen (see TxRecord.seenClock).
+   */
+  private getConcurrentOps(entry: SortedTxEntry): Op[] {
+    const ts = entry.txTimestamp
+    const sortedTxs = this.sortedTxs
+
+    // Binary search for the position of the entry
+    let low = 0
+    let high = sortedTxs.length
+    while (low < high) {
+      const mid = (low + high) >>> 1
+      if (compareTxTimestamps(sortedTxs[mid].txTimestamp, ts) < 0) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+
+    const seenClock = entry.txRecord.seenClock ?? ts.clock - 1
+    let start = low
+    while (start > 0) {
+      const prevTs = sortedTxs[start - 1].txTimestamp
+      if (prevTs.epoch !== ts.epoch || prevTs.clock <= seenClock) break
+      start--
+    }
+
+    const ops: Op[] = []
+    for (let i = start; i < low; i++) {
+      const prev = sortedTxs[i]
+      if (prev.txTimestamp.clientId === ts.clientId) continue
+      const appliedOps = this.appliedOps.get(prev.dedupTxTimestampKey)
+      if (appliedOps) {
+        ops.push(...appliedOps)
+      }
+    }
+    return ops
+  }
+
+  /**
+   * Gets the structure version (see structureVersion).
+   */
+  getStructureVersion(): number {
+    return this.structureVersion
+  }
+
+  /**
+   * Gets the outcome of a logical tx (by its dedup key) in the current state calculation.
+   * Returns undefined if the tx has not been processed (or was skipped because of the checkpoint).
+   */
+  getTxResult(dedupKey: TxTimestampKey): TxApplyResult | undefined {
+    return this.txResults.get(dedupKey)
+  }
+
+  /**
+   * Gets why a logical tx (by its dedup key) was rejected in the current state calculation.
+   * Returns undefined if the tx was not rejected (or has not been processed).
+   */
+  getTxRejection(dedupKey: TxTimestampKey): TxRejection | undefined {
+    return this.txRejections.get(dedupKey)
+  }
+
+  /**
+   * Updates the max seen clocks with the timestamp of a transaction.
+   */
+  private trackClock(ts: TxTimestamp): void {
+    if (ts.clock > this.maxSeenClock) {
+      this.maxSeenClock = ts.clock
+    }
+    if (ts.clock > (this.maxSeenClockByClient.get(ts.clientId) ?? 0)) {
+      this.maxSeenClockByClient.set(ts.clientId, ts.clock)
+    }
   }
 
   /**
@@ -380,6 +575,19 @@ export class StateCalculator {
     return this.maxSeenClock
   }
 
+  /**
+   * Gets the max clock seen from the transactions of every client but the given one.
+   */
+  getMaxSeenRemoteClock(clientId: string): number {
+    let max = 0
+    for (const [id, clock] of this.maxSeenClockByClient) {
+      if (id !== clientId && clock > max) {
+        max = clock
+      }
+    }
+    return max
+  }
+
   /**
    * Gets the current cached state without recalculating.
    * Returns null if state has never been calculated.
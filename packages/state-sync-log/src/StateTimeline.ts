@@ -0,0 +1,146 @@
+import { JSONObject } from "./json"
+import { isTransactionInCheckpoint, type StateCalculator } from "./StateCalculator"
+import { TxTimestampKey } from "./txTimestamp"
+
+/**
+ * Number of txs between cached snapshots.
+ */
+const SNAPSHOT_INTERVAL = 64
+
+/**
+ * StateTimeline computes past states (time travel) by replaying the txs of a StateCalculator
+ * from its base checkpoint, following the same dedup and watermark rules.
+ *
+ * To make scrubbing through history fast it keeps a sparse cache of snapshots
+ * (one every SNAPSHOT_INTERVAL txs). Thanks to structural sharing, snapshots only cost
+ * the parts of the state that changed between them.
+ *
+ * The cache is dropped whenever the calculator's structure version changes
+ * (txs inserted in the middle, removed, or a new base checkpoint). Appending txs
+ * at the end keeps it valid.
+ */
+export class StateTimeline {
+  /** Structure version of the calculator the caches were built for */
+  private version = -1
+
+  /** Snapshots by index: state after applying sortedTxs[0..index] */
+  private snapshots: Map<number, JSONObject> = new Map()
+
+  /** Index of the first entry of each logical tx (later entries are duplicates) */
+  private firstIndexByDedupKey: Map<TxTimestampKey, number> = new Map()
+
+  /** Number of sorted entries indexed in firstIndexByDedupKey */
+  private indexedCount = 0
+
+  constructor(private readonly calc: StateCalculator) {}
+
+  private syncCaches(): void {
+    const version = this.calc.getStructureVersion()
+    if (version !== this.version) {
+      this.version = version
+      this.snapshots.clear()
+      this.firstIndexByDedupKey.clear()
+      this.indexedCount = 0
+    }
+
+    // Index new (appended) entries
+    const sortedTxs = this.calc.getSortedTxs()
+    for (let i = this.indexedCount; i < sortedTxs.length; i++) {
+      const dedupKey = sortedTxs[i].dedupTxTimestampKey
+      if (!this.firstIndexByDedupKey.has(dedupKey)) {
+        this.firstIndexByDedupKey.set(dedupKey, i)
+      }
+    }
+    this.indexedCount = sortedTxs.length
+  }
+
+  /**
+   * Returns the state after applying the txs up to (and including) the given index
+   * of the calculator's sorted txs. An index of -1 returns the base checkpoint state.
+   */
+  getStateAtIndex(index: number): JSONObject {
+    this.syncCaches()
+
+    const calc = this.calc
+    const sortedTxs = calc.getSortedTxs()
+    const baseCheckpoint = calc.getBaseCheckpoint()
+    const baseState: JSONObject = baseCheckpoint?.state ?? {}
+
+    if (index < 0) {
+      return baseState
+    }
+    if (index >= sortedTxs.length) {
+      index = sortedTxs.length - 1
+    }
+
+    // Fast path: the latest state is already calculated
+    if (index === calc.getLastAppliedIndex() && index === sortedTxs.length - 1) {
+      return calc.getCachedState() ?? baseState
+    }
+
+    // Find the closest snapshot at or before the index
+    let startIndex = index - (index % SNAPSHOT_INTERVAL)
+    let state: JSONObject | undefined
+    while (startIndex >= 0 && state === undefined) {
+      state = this.snapshots.get(startIndex)
+      if (state === undefined) {
+        startIndex -= SNAPSHOT_INTERVAL
+      }
+    }
+    if (state === undefined) {
+      state = baseState
+      startIndex = -1
+    }
+
+    const watermarks = baseCheckpoint?.watermarks ?? {}
+
+    for (let i = startIndex + 1; i <= index; i++) {
+      const entry = sortedTxs[i]
+
+      // Skip duplicates and txs already in the checkpoint (same rules as the calculator)
+      const isDuplicate = this.firstIndexByDedupKey.get(entry.dedupTxTimestampKey) !== i
+      if (!isDuplicate && !isTransactionInCheckpoint(entry.dedupTxTimestamp, watermarks)) {
+        state = calc.applyTx(state, entry).state
+      }
+
+      if (i % SNAPSHOT_INTERVAL === 0) {
+        this.snapshots.set(i, state)
+      }
+    }
+
+    return state
+  }
+
+  /**
+   * Returns the state right after the given tx was applied (or rejected).
+   * The key can be either the physical key or the logical (original) key of the tx.
+   * Returns undefined if the tx is not in the log.
+   */
+  getStateAt(txKey: TxTimestampKey): JSONObject | undefined {
+    this.syncCaches()
+
+    const entry = this.calc.getTx(txKey)
+    let index = entry ? this.calc.getSortedTxs().indexOf(entry) : -1
+    if (index < 0) {
+      index = this.firstIndexByDedupKey.get(txKey) ?? -1
+    }
+    if (index < 0) {
+      return undefined
+    }
+
+    return this.getStateAtIndex(index)
+  }
+
+  /**
+   * Returns the state after the last tx (in log order) authored at or before the given wall clock time.
+   * Returns the base checkpoint state if there is no such tx.
+   */
+  getStateAtTime(wallClock: number): JSONObject {
+    const sortedTxs = this.calc.getSortedTxs()
+    let index = sortedTxs.length - 1
+    while (index >= 0 && sortedTxs[index].dedupTxTimestamp.wallClock > wallClock) {
+      index--
+    }
+    return this.getStateAtIndex(index)
+  }
+}
@@ -1,3 +1,4 @@
+import { JSONObject, JSONRecord } from "./json"
 import { Op } from "./operations"
 import type { TxTimestampKey } from "./txTimestamp"
 
@@ -12,4 +13,37 @@ export type TxRecord = {
    * action twice.
    */
   originalTxKey?: TxTimestampKey
+  /**
+   * Highest clock of the txs from other clients the author had seen when emitting the tx
+   * (preserved on re-emits), only stored when rebasing array indexes. Txs from other clients
+   * with higher clocks are concurrent to it.
+   * Records without it had seen every clock below their own.
+   */
+  seenClock?: number
+  /**
+   * Optional app metadata (e.g. author, label, correlation id).
+   * Preserved on re-emits and never used for state calculation.
+   */
+  meta?: TxMeta
+}
+
+/**
+ * App defined metadata attached to a tx.
+ */
+export type TxMeta = JSONRecord
+
+/**
+ * A tx that was applied to the state.
+ */
+export type AppliedTx = {
+  /**
+   * Logical key of the tx (the original key for re-emitted txs).
+   */
+  txKey: TxTimestampKey
+  ops: readonly Op[]
+  meta: TxMeta | undefined
+  /**
+   * The state the tx was applied to.
+   */
+  stateBefore: JSONObject
 }
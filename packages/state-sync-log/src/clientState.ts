@@ -1,6 +1,6 @@
 import { JSONObject } from "./json"
 import { ValidateFn } from "./operations"
-import { StateCalculator } from "./StateCalculator"
+import { StateCalculator, type StateCalculatorOptions } from "./StateCalculator"
 
 /**
  * Client-side state including clocks and calculator for state management
@@ -26,12 +26,13 @@ export interface ClientState {
  */
 export function createClientState(
   validateFn: ValidateFn<JSONObject> | undefined,
-  retentionWindowMs: number
+  retentionWindowMs: number,
+  calculatorOptions?: StateCalculatorOptions
 ): ClientState {
   return {
     localClock: 0,
     cachedFinalizedEpoch: null, // Will be recalculated on first run
-    stateCalculator: new StateCalculator(validateFn),
+    stateCalculator: new StateCalculator(validateFn, calculatorOptions),
     retentionWindowMs,
   }
 }
@@ -0,0 +1,615 @@
+import { failure } from "./error"
+import type { JSONObject, JSONRecord, JSONValue, Path } from "./json"
+import { toPath } from "./jsonPointer"
+import {
+  getOpTouchedPaths,
+  matchesWhere,
+  type Op,
+  type ValidateFn,
+  type ValidationContext,
+  type ValidationRejection,
+} from "./operations"
+import { getValueAtPath, isElementSelector } from "./paths"
+import { isObject } from "./utils"
+
+/**
+ * The values of the elements of a collection (an array, or an object of records keyed by id)
+ * must be unique.
+ */
+export type UniqueConstraint = {
+  kind: "unique"
+  /**
+   * Id of the constraint, reported as the `ruleId` of the txs it rejects.
+   */
+  id: string
+  /**
+   * Path (or JSON Pointer) of the collection.
+   */
+  collection: Path | string
+  /**
+   * Field of the elements whose values must be unique. Elements without it are ignored.
+   */
+  key: string
+  /**
+   * Message of the rejections (a default one is generated if omitted).
+   */
+  message?: string
+}
+
+/**
+ * The elements of a collection must reference existing elements of another collection.
+ */
+export type ForeignKeyConstraint = {
+  kind: "foreignKey"
+  /**
+   * Id of the constraint, reported as the `ruleId` of the txs it rejects.
+   */
+  id: string
+  /**
+   * Path (or JSON Pointer) of the referencing collection.
+   */
+  collection: Path | string
+  /**
+   * Field of the referencing elements that holds the reference.
+   * Elements where it is missing or null reference nothing.
+   */
+  field: string
+  /**
+   * Path (or JSON Pointer) of the referenced collection.
+   */
+  references: Path | string
+  /**
+   * Field of the referenced elements that references match. If omitted, references match the
+   * keys of the referenced collection (which must be an object of records keyed by id).
+   */
+  referencesKey?: string
+  /**
+   * Message of the rejections (a default one is generated if omitted).
+   */
+  message?: string
+}
+
+/**
+ * Limits the number of elements of a collection (optionally only those matching a predicate,
+ * per group of elements with the same value of a field).
+ */
+export type CardinalityConstraint = {
+  kind: "cardinality"
+  /**
+   * Id of the constraint, reported as the `ruleId` of the txs it rejects.
+   */
+  id: string
+  /**
+   * Path (or JSON Pointer) of the collection.
+   */
+  collection: Path | string
+  /**
+   * Only count the elements whose fields are deeply equal to these.
+   */
+  where?: JSONRecord
+  /**
+   * Count the elements per value of this field (elements without it are not counted), instead
+   * of all together. `min` then applies to the groups with at least one element.
+   */
+  groupBy?: string
+  /**
+   * Minimum number of elements.
+   */
+  min?: number
+  /**
+   * Maximum number of elements.
+   */
+  max?: number
+  /**
+   * Message of the rejections (a default one is generated if omitted).
+   */
+  message?: string
+}
+
+/**
+ * A declarative constraint (see `constraintsValidator`).
+ */
+export type Constraint = UniqueConstraint | ForeignKeyConstraint | CardinalityConstraint
+
+/**
+ * A value that can be indexed (non-primitive values are not indexed).
+ */
+type IndexValue = string | number | boolean | null
+
+/**
+ * Key of an element within its collection.
+ */
+type Slot = string | number
+
+/**
+ * Extracts the indexed value of an element (undefined if it is not indexed).
+ */
+type Projection = (element: JSONValue, slot: Slot) => IndexValue | undefined
+
+/**
+ * Number of overlays an index can stack before it is flattened.
+ */
+const MAX_OVERLAY_DEPTH = 32
+
+/**
+ * An immutable multiset of the values of a collection, which also counts the values whose count
+ * is a violation of a constraint.
+ * Derived indexes are stored as overlays of the counts changed over the index they were derived
+ * from, so deriving them costs as much as the change and not as the collection.
+ */
+class CountIndex {
+  private constructor(
+    /** The index this one is an overlay of */
+    readonly parent: CountIndex | undefined,
+    private readonly counts: Map<IndexValue, number>,
+    private readonly depth: number,
+    private readonly isViolation: (count: number) => boolean,
+    /** Number of values whose count is a violation */
+    readonly violations: number
+  ) {}
+
+  static build(values: Iterable<IndexValue>, isViolation: (count: number) => boolean): CountIndex {
+    const counts = new Map<IndexValue, number>()
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+    let violations = 0
+    for (const count of counts.values()) {
+      if (isViolation(count)) violations++
+    }
+    return new CountIndex(undefined, counts, 0, isViolation, violations)
+  }
+
+  get(value: IndexValue): number {
+    for (let index: CountIndex | undefined = this; index; index = index.parent) {
+      const count = index.counts.get(value)
+      if (count !== undefined) return count
+    }
+    return 0
+  }
+
+  /**
+   * Returns the values whose counts changed since the parent index.
+   */
+  getChangedValues(): Iterable<IndexValue> {
+    return this.counts.keys()
+  }
+
+  /**
+   * Returns the (non-zero) counts of every value.
+   */
+  getAllCounts(): Map<IndexValue, number> {
+    if (!this.parent) return this.counts
+    const counts = new Map(this.parent.getAllCounts())
+    for (const [value, count] of this.counts) {
+      if (count === 0) {
+        counts.delete(value)
+      } else {
+        counts.set(value, count)
+      }
+    }
+    return counts
+  }
+
+  /**
+   * Derives a new index by adding the given differences to the counts.
+   */
+  derive(delta: Map<IndexValue, number>): CountIndex {
+    const counts = new Map<IndexValue, number>()
+    let violations = this.violations
+    for (const [value, diff] of delta) {
+      if (diff === 0) continue
+      const before = this.get(value)
+      const after = before + diff
+      counts.set(value, after)
+      violations += Number(this.isViolation(after)) - Number(this.isViolation(before))
+    }
+    if (this.depth + 1 < MAX_OVERLAY_DEPTH) {
+      return new CountIndex(this, counts, this.depth + 1, this.isViolation, violations)
+    }
+
+    // Flatten the overlays, so lookups stay fast and old indexes can be garbage collected
+    const allCounts = new Map(this.getAllCounts())
+    for (const [value, count] of counts) {
+      if (count === 0) {
+        allCounts.delete(value)
+      } else {
+        allCounts.set(value, count)
+      }
+    }
+    return new CountIndex(undefined, allCounts, 0, this.isViolation, violations)
+  }
+}
+
+function toIndexValue(value: JSONValue): IndexValue | undefined {
+  return value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+    ? value
+    : undefined
+}
+
+function fieldProjection(field: string): Projection {
+  return (element) =>
+    isObject(element) && !Array.isArray(element) && Object.hasOwn(element, field)
+      ? toIndexValue((element as JSONRecord)[field])
+      : undefined
+}
+
+/**
+ * Iterates the (defined) elements of a collection.
+ */
+function* getSlots(collection: JSONValue): Generator<[Slot, JSONValue]> {
+  if (Array.isArray(collection)) {
+    for (let i = 0; i < collection.length; i++) {
+      if (collection[i] !== undefined) yield [i, collection[i]]
+    }
+  } else if (isObject(collection)) {
+    const record = collection as JSONRecord
+    for (const key of Object.keys(record)) {
+      if (record[key] !== undefined) yield [key, record[key]]
+    }
+  }
+}
+
+/**
+ * Elements removed from / added to a collection.
+ */
+type SlotChanges = { removed: [Slot, JSONValue][]; added: [Slot, JSONValue][] }
+
+/**
+ * Diffs two arrays by element identity, skipping their common prefix and suffix (unchanged
+ * elements keep their references).
+ */
+function diffArrays(prev: readonly JSONValue[], next: readonly JSONValue[]): SlotChanges {
+  const minLength = Math.min(prev.length, next.length)
+  let start = 0
+  while (start < minLength && prev[start] === next[start]) start++
+  let prevEnd = prev.length
+  let nextEnd = next.length
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd--
+    nextEnd--
+  }
+
+  const changes: SlotChanges = { removed: [], added: [] }
+  for (let i = start; i < prevEnd; i++) {
+    if (prev[i] !== undefined) changes.removed.push([i, prev[i]])
+  }
+  for (let i = start; i < nextEnd; i++) {
+    if (next[i] !== undefined) changes.added.push([i, next[i]])
+  }
+  return changes
+}
+
+/**
+ * Returns the keys of the records of a collection that the ops may have changed, or undefined
+ * if they cannot be told (e.g. the collection itself was replaced).
+ */
+function getTouchedKeys(collectionPath: Path, ops: readonly Op[]): Set<string> | undefined {
+  const keys = new Set<string>()
+  for (const op of ops) {
+    for (const path of getOpTouchedPaths(op)) {
+      let related = true
+      for (let i = 0; i < Math.min(path.length, collectionPath.length); i++) {
+        const segment = path[i]
+        const collectionSegment = collectionPath[i]
+        if (isElementSelector(segment) || isElementSelector(collectionSegment)) return undefined
+        if (String(segment) !== String(collectionSegment)) {
+          related = false
+          break
+        }
+      }
+      if (!related) continue
+
+      const key = path[collectionPath.length]
+      if (key === undefined || isElementSelector(key)) return undefined
+      keys.add(String(key))
+    }
+  }
+  return keys
+}
+
+/**
+ * Diffs two records collections, only checking the records the ops may have changed.
+ */
+function diffRecords(
+  prev: JSONRecord,
+  next: JSONRecord,
+  collectionPath: Path,
+  ops: readonly Op[]
+): SlotChanges {
+  const keys =
+    getTouchedKeys(collectionPath, ops) ?? new Set([...Object.keys(prev), ...Object.keys(next)])
+  const changes: SlotChanges = { removed: [], added: [] }
+  for (const key of keys) {
+    const prevElement = Object.hasOwn(prev, key) ? prev[key] : undefined
+    const nextElement = Object.hasOwn(next, key) ? next[key] : undefined
+    if (prevElement === nextElement) continue
+    if (prevElement !== undefined) changes.removed.push([key, prevElement])
+    if (nextElement !== undefined) changes.added.push([key, nextElement])
+  }
+  return changes
+}
+
+function diffCollections(
+  prev: JSONValue,
+  next: JSONValue,
+  collectionPath: Path,
+  ops: readonly Op[]
+): SlotChanges {
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    return diffArrays(prev, next)
+  }
+  if (isObject(prev) && !Array.isArray(prev) && isObject(next) && !Array.isArray(next)) {
+    return diffRecords(prev as JSONRecord, next as JSONRecord, collectionPath, ops)
+  }
+  return { removed: [...getSlots(prev)], added: [...getSlots(next)] }
+}
+
+type Indexer = (state: JSONValue, context: ValidationContext<any>) => CountIndex
+
+/**
+ * Creates a function that returns the index of the collection at the given path of a state.
+ * Indexes are cached by collection identity, and derived from the index of the collection in
+ * the previous state when available.
+ */
+function createIndexer(
+  collectionPath: Path,
+  projection: Projection,
+  isViolation: (count: number) => boolean
+): Indexer {
+  const cache = new WeakMap<object, CountIndex>()
+  const emptyIndex = CountIndex.build([], isViolation)
+
+  const project = function* (slots: Iterable<[Slot, JSONValue]>): Generator<IndexValue> {
+    for (const [slot, element] of slots) {
+      const value = projection(element, slot)
+      if (value !== undefined) yield value
+    }
+  }
+
+  return (state, context) => {
+    const collection = getValueAtPath(state, collectionPath)
+    if (!isObject(collection)) return emptyIndex
+
+    let index = cache.get(collection)
+    if (index) return index
+
+    const prevCollection = getValueAtPath(context.prevState, collectionPath)
+    const prevIndex = isObject(prevCollection) ? cache.get(prevCollection) : emptyIndex
+    if (prevIndex) {
+      const { removed, added } = diffCollections(
+        prevCollection,
+        collection,
+        collectionPath,
+        context.ops
+      )
+      const delta = new Map<IndexValue, number>()
+      for (const value of project(removed)) {
+        delta.set(value, (delta.get(value) ?? 0) - 1)
+      }
+      for (const value of project(added)) {
+        delta.set(value, (delta.get(value) ?? 0) + 1)
+      }
+      index = prevIndex.derive(delta)
+    } else {
+      index = CountIndex.build(project(getSlots(collection)), isViolation)
+    }
+    cache.set(collection, index)
+    return index
+  }
+}
+
+/**
+ * Checks a constraint against a candidate state, returning the rejection if it is violated.
+ */
+type ConstraintChecker = (
+  state: JSONValue,
+  context: ValidationContext<any>
+) => ValidationRejection | undefined
+
+function describeValue(value: IndexValue): string {
+  return JSON.stringify(value)
+}
+
+function createUniqueChecker(constraint: UniqueConstraint): ConstraintChecker {
+  const collectionPath = toPath(constraint.collection)
+  const projection = fieldProjection(constraint.key)
+  const getIndex = createIndexer(collectionPath, projection, (count) => count > 1)
+
+  return (state, context) => {
+    if (getIndex(state, context).violations === 0) return undefined
+
+    const seen = new Set<IndexValue>()
+    for (const [slot, element] of getSlots(getValueAtPath(state, collectionPath))) {
+      const value = projection(element, slot)
+      if (value === undefined) continue
+      if (seen.has(value)) {
+        return {
+          message: constraint.message ?? `Duplicate ${constraint.key} ${describeValue(value)}`,
+          path: [...collectionPath, slot, constraint.key],
+        }
+      }
+      seen.add(value)
+    }
+    return undefined
+  }
+}
+
+function createForeignKeyChecker(constraint: ForeignKeyConstraint): ConstraintChecker {
+  const collectionPath = toPath(constraint.collection)
+  const referencesPath = toPath(constraint.references)
+  const refProjection = fieldProjection(constraint.field)
+  // Null references reference nothing
+  const getRefs = createIndexer(
+    collectionPath,
+    (element, slot) => refProjection(element, slot) ?? undefined,
+    () => false
+  )
+  const getTargets = createIndexer(
+    referencesPath,
+    constraint.referencesKey === undefined
+      ? (_element, slot) => (typeof slot === "string" ? slot : undefined)
+      : fieldProjection(constraint.referencesKey),
+    () => false
+  )
+
+  // Number of references to missing targets, by refs index (for its last targets index)
+  const danglingCache = new WeakMap<CountIndex, { targets: CountIndex; dangling: number }>()
+
+  const countDangling = (value: IndexValue, refs: CountIndex, targets: CountIndex) =>
+    targets.get(value) === 0 ? refs.get(value) : 0
+
+  const getDangling = (refs: CountIndex, targets: CountIndex): number => {
+    const cached = danglingCache.get(refs)
+    if (cached?.targets === targets) return cached.dangling
+
+    // Derive it from the count of the indexes the current ones are overlays of (if known)
+    const prevRefs = cached ? refs : refs.parent
+    const prevEntry = prevRefs && danglingCache.get(prevRefs)
+    let dangling = 0
+    if (
+      prevRefs &&
+      prevEntry &&
+      (prevEntry.targets === targets || prevEntry.targets === targets.parent)
+    ) {
+      const prevTargets = prevEntry.targets
+      const values = new Set<IndexValue>()
+      if (prevRefs !== refs) {
+        for (const value of refs.getChangedValues()) values.add(value)
+      }
+      if (prevTargets !== targets) {
+        for (const value of targets.getChangedValues()) values.add(value)
+      }
+      dangling = prevEntry.dangling
+      for (const value of values) {
+        dangling +=
+          countDangling(value, refs, targets) - countDangling(value, prevRefs, prevTargets)
+      }
+    } else {
+      for (const value of refs.getAllCounts().keys()) {
+        dangling += countDangling(value, refs, targets)
+      }
+    }
+
+    danglingCache.set(refs, { targets, dangling })
+    return dangling
+  }
+
+  return (state, context) => {
+    const targets = getTargets(state, context)
+    if (getDangling(getRefs(state, context), targets) === 0) return undefined
+
+    for (const [slot, element] of getSlots(getValueAtPath(state, collectionPath))) {
+      const value = refProjection(element, slot)
+      if (value !== undefined && value !== null && targets.get(value) === 0) {
+        return {
+          message:
+            constraint.message ??
+            `${constraint.field} ${describeValue(value)} does not reference an existing element`,
+          path: [...collectionPath, slot, constraint.field],
+        }
+      }
+    }
+    return undefined
+  }
+}
+
+function createCardinalityChecker(constraint: CardinalityConstraint): ConstraintChecker {
+  const { where, groupBy, min, max } = constraint
+  if (min === undefined && max === undefined) {
+    failure(`Cardinality constraint "${constraint.id}" must set "min" and/or "max"`)
+  }
+  const collectionPath = toPath(constraint.collection)
+  const groupProjection = groupBy === undefined ? () => true : fieldProjection(groupBy)
+  const projection: Projection = (element, slot) =>
+    where === undefined || matchesWhere(element, where) ? groupProjection(element, slot) : undefined
+  // Groups without elements are not indexed
+  const isViolation = (count: number) =>
+    (max !== undefined && count > max) || (min !== undefined && count > 0 && count < min)
+  const getIndex = createIndexer(collectionPath, projection, isViolation)
+
+  const describeCount = (count: number, group: IndexValue) => {
+    const limit = max !== undefined && count > max ? `at most ${max}` : `at least ${min}`
+    const elements =
+      groupBy === undefined ? "elements" : `elements with ${groupBy} ${describeValue(group)}`
+    return `Must have ${limit} ${elements} (has ${count})`
+  }
+
+  return (state, context) => {
+    const index = getIndex(state, context)
+    // Without groups the count may be zero, which is not indexed
+    if (groupBy === undefined && min !== undefined && index.get(true) < min) {
+      return {
+        message: constraint.message ?? describeCount(index.get(true), true),
+        path: collectionPath,
+      }
+    }
+    if (index.violations === 0) return undefined
+
+    for (const [slot, element] of getSlots(getValueAtPath(state, collectionPath))) {
+      const group = projection(element, slot)
+      if (group !== undefined && isViolation(index.get(group))) {
+        return {
+          message: constraint.message ?? describeCount(index.get(group), group),
+          path: groupBy === undefined ? collectionPath : [...collectionPath, slot, groupBy],
+        }
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * Creates a validation function that enforces declarative constraints:
+ * - `unique`: the values of a field of the elements of a collection must be unique.
+ * - `foreignKey`: a field of the elements of a collection must reference an existing element of
+ *   another collection (so referenced elements cannot be deleted while referenced).
+ * - `cardinality`: limits the number of elements of a collection (e.g. a WIP limit).
+ *
+ * Collections are arrays or objects of records keyed by id.
+ * The indexes backing the checks are cached by collection identity and updated from the elements
+ * each tx changed (unchanged elements keep their references), so checks stay cheap as collections
+ * grow.
+ *
+ * Constraints are checked in order and the first violated one rejects the tx, with its id as the
+ * `ruleId` and the path of an offending value.
+ *
+ * @example
+ * ```ts
+ * const validate = constraintsValidator<State>([
+ *   { kind: "unique", id: "taskIds", collection: "/tasks", key: "id" },
+ *   { kind: "foreignKey", id: "taskColumn", collection: "/tasks", field: "columnId", references: "/columns" },
+ *   { kind: "cardinality", id: "wipLimit", collection: "/tasks", where: { status: "doing" }, max: 3 },
+ * ])
+ * ```
+ *
+ * @param constraints - The constraints.
+ * @returns The validation function.
+ */
+export function constraintsValidator<State extends JSONObject>(
+  constraints: readonly Constraint[]
+): ValidateFn<State> {
+  const checkers = constraints.map((constraint): [string, ConstraintChecker] => {
+    switch (constraint.kind) {
+      case "unique":
+        return [constraint.id, createUniqueChecker(constraint)]
+      case "foreignKey":
+        return [constraint.id, createForeignKeyChecker(constraint)]
+      case "cardinality":
+        return [constraint.id, createCardinalityChecker(constraint)]
+      default:
+        throw failure(`Unknown constraint kind: ${(constraint as any).kind}`)
+    }
+  })
+
+  return (state, context) => {
+    for (const [id, check] of checkers) {
+      const rejection = check(state, context)
+      if (rejection) return { ruleId: id, ...rejection }
+    }
+    return true
+  }
+}
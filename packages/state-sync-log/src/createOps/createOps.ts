@@ -5,16 +5,18 @@
  * MIT License
  */
 
+import type { JSONObject } from "../json"
 import { current } from "./current"
 import { draftify } from "./draftify"
-import type { CreateOpsResult, Draft } from "./interface"
-import { getProxyDraft, isDraft, isDraftable, isEqual, revokeProxy } from "./utils"
+import type { CreateOpsOptions, CreateOpsResult, Draft } from "./interface"
+import { deepClone, getProxyDraft, isDraft, isDraftable, isEqual, revokeProxy } from "./utils"
 
 /**
  * Create operations from mutable-style mutations.
  *
  * @param base - The base state (will not be mutated)
  * @param mutate - A function that mutates the draft
+ * @param options - Optional settings (e.g. generating precondition tests)
  * @returns An object containing the next state and the operations performed
  *
  * @example
@@ -35,7 +37,8 @@ import { getProxyDraft, isDraft, isDraftable, isEqual, revokeProxy } from "./uti
  */
 export function createOps<T extends object>(
   base: T,
-  mutate: (draft: Draft<T>) => void
+  mutate: (draft: Draft<T>) => void,
+  options?: CreateOpsOptions
 ): CreateOpsResult<T> {
   // Handle case where base is already a draft
   const state = isDraft(base) ? current(base as Draft<T>) : base
@@ -46,7 +49,7 @@ export function createOps<T extends object>(
   }
 
   // Create draft
-  const [draft, finalize] = draftify(state)
+  const [draft, finalize] = draftify(state, options)
 
   // Run mutation
   let result: unknown
@@ -67,12 +70,16 @@ export function createOps<T extends object>(
         `Either the value is returned as a new non-draft value, or only the draft is modified without returning any value.`
       )
     }
-    // User returned a new value - use it as the next state
+    // User returned a new value - use it as the next state, replacing the root
     // Note: We don't support rawReturn, so returning a non-draft value replaces the state
-    // but we can't generate meaningful ops for this case
     if (result !== undefined) {
-      const [, ops] = finalize([])
-      return { nextState: result as T, ops }
+      if (!isDraftable(result)) {
+        revokeProxy(proxyDraft)
+        throw new Error(`createOps() can only replace the state with a plain object or array.`)
+      }
+      const value = deepClone(result) as JSONObject
+      finalize([])
+      return { nextState: result as T, ops: [{ kind: "replace", value }] }
     }
   }
 
@@ -4,6 +4,7 @@
  * Modified to use eager op logging - ops are pushed immediately when mutations happen.
  */
 
+import { diffText } from "../reconcile"
 import { parseArrayIndex } from "../utils"
 import { PROXY_DRAFT } from "./constant"
 import { DraftType, type Finalities, type JSONValue, type Op, type ProxyDraft } from "./interface"
@@ -13,6 +14,7 @@ import {
   ensureShallowCopy,
   get,
   getDescriptor,
+  getOriginalPath,
   getPathOrThrow,
   getProxyDraft,
   getType,
@@ -27,6 +29,7 @@ import {
   peek,
   revokeProxy,
   set,
+  withoutTests,
 } from "./utils"
 
 // Note: getValue is used in finalizeDraft, deepClone uses it internally for drafts
@@ -274,6 +277,40 @@ function createArrayMethodWrapper(
   }
 }
 
+/**
+ * Records a test (precondition) for a primitive value read from a draft, as long as it is still
+ * the one in the base state (or the key is still missing from it).
+ */
+function recordReadTest(target: ProxyDraft, key: PropertyKey): void {
+  const tests = target.finalities.tests
+  if (!tests || typeof key === "symbol") return
+
+  let opKey: string | number = key
+  if (target.type === DraftType.Array && key !== "length") {
+    const index = parseArrayIndex(String(key))
+    if (index === null) return
+    opKey = index
+  }
+
+  const source = latest(target)
+  const original = target.original as Record<PropertyKey, unknown>
+  const path = getOriginalPath(target)
+  let test: Op
+  if (has(source, key)) {
+    const value = (source as Record<PropertyKey, unknown>)[key]
+    if (!has(original, key) || !isEqual(value, original[key])) return
+    test = { kind: "test", path, key: opKey, value: value as JSONValue }
+  } else {
+    if (has(original, key)) return
+    test = { kind: "test", path, key: opKey, exists: false }
+  }
+
+  const location = JSON.stringify([...path, opKey])
+  if (!tests.has(location)) {
+    tests.set(location, test)
+  }
+}
+
 /**
  * Proxy handler for drafts
  */
@@ -298,13 +335,18 @@ const proxyHandler: ProxyHandler<ProxyDraft> = {
     ) {
       const originalMethod = (source as unknown[])[key as keyof unknown[]]
       if (typeof originalMethod === "function") {
-        return createArrayMethodWrapper(target, receiver, key)
+        // Values read by the mutating methods themselves are not preconditions
+        const method = createArrayMethodWrapper(target, receiver, key)
+        return (...args: unknown[]) => withoutTests(target, () => method(...args))
       }
     }
 
     // Property doesn't exist - check prototype chain
     if (!has(source, key)) {
       const desc = getDescriptor(source, key)
+      if (!desc) {
+        recordReadTest(target, key)
+      }
       return desc ? ("value" in desc ? desc.value : desc.get?.call(target.proxy)) : undefined
     }
 
@@ -312,6 +354,9 @@ const proxyHandler: ProxyHandler<ProxyDraft> = {
 
     // Already finalized or not draftable - return as-is
     if (target.finalized || !isDraftable(value)) {
+      if (!target.finalized) {
+        recordReadTest(target, key)
+      }
       return value
     }
 
@@ -420,13 +465,27 @@ const proxyHandler: ProxyHandler<ProxyDraft> = {
         })
       }
     } else {
-      // Regular property set - use opKey (numeric for arrays)
-      pushOp(target, {
-        kind: "set",
-        path: getPathOrThrow(target),
-        key: opKey,
-        value: deepClone(value) as JSONValue,
-      })
+      // Edits of strings are logged as text splices, so non-overlapping edits merge
+      const edit =
+        target.finalities.textSplices && typeof current === "string" && typeof value === "string"
+          ? diffText(current, value)
+          : undefined
+      if (edit) {
+        pushOp(target, {
+          kind: "stringSplice",
+          path: getPathOrThrow(target),
+          key: opKey,
+          ...edit,
+        })
+      } else {
+        // Regular property set - use opKey (numeric for arrays)
+        pushOp(target, {
+          kind: "set",
+          path: getPathOrThrow(target),
+          key: opKey,
+          value: deepClone(value) as JSONValue,
+        })
+      }
     }
 
     return true
@@ -594,8 +653,12 @@ export function finalizeDraft<T>(result: T, returnedValue: [T] | []): [T, Op[]]
     handleValue(state, proxyDraft.finalities.handledSet)
   }
 
-  // Get ops from finalities (eager logging)
+  // Get ops from finalities (eager logging), preceded by the tests of the values read
+  const tests = proxyDraft?.finalities.tests
   const ops = proxyDraft?.finalities.ops ?? []
+  if (tests && tests.size > 0 && ops.length > 0) {
+    ops.unshift(...tests.values())
+  }
 
   // Revoke all proxies
   if (proxyDraft) {
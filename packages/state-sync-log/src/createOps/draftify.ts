@@ -4,14 +4,15 @@
  */
 
 import { createDraft, finalizeDraft } from "./draft"
-import type { Finalities, Op } from "./interface"
+import type { CreateOpsOptions, Finalities, Op } from "./interface"
 import { getProxyDraft, isDraftable } from "./utils"
 
 /**
  * Create a draft and return a finalize function
  */
 export function draftify<T extends object>(
-  baseState: T
+  baseState: T,
+  options?: CreateOpsOptions
 ): [T, (returnedValue: [T] | []) => [T, Op[]]] {
   const finalities: Finalities = {
     draft: [],
@@ -20,6 +21,9 @@ export function draftify<T extends object>(
     draftsCache: new WeakSet<object>(),
     ops: [],
     rootDraft: null, // Will be set by createDraft
+    tests: options?.generateTests ? new Map() : null,
+    idKey: options?.idKey ?? null,
+    textSplices: options?.textSplices ?? false,
   }
 
   // Check if state is draftable
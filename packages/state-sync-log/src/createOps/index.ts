@@ -9,10 +9,13 @@
 export { createOps } from "./createOps"
 export { current } from "./current"
 // Types
-export type { CreateOpsResult, Draft, Immutable, Op, Path } from "./interface"
+export type { CreateOpsOptions, CreateOpsResult, Draft, Immutable, Op, Path } from "./interface"
+// Move / copy helpers
+export { copy, move } from "./moveHelpers"
+// Numeric helpers
+export { type IncrementOptions, increment } from "./numberHelpers"
 // Utilities
 export { original } from "./original"
-
 // Set-like helpers
 export { addToSet, deleteFromSet } from "./setHelpers"
 export { isDraft, isDraftable } from "./utils"
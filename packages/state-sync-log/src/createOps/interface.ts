@@ -29,6 +29,15 @@ export interface Finalities {
   ops: Op[]
   /** Root draft of the tree (set when creating the root draft) */
   rootDraft: ProxyDraft | null
+  /**
+   * Tests (preconditions) for the values read from the base state, by location
+   * (null when not generating tests or while recording is paused)
+   */
+  tests: Map<string, Op> | null
+  /** Field used to address array elements by id in paths (null when disabled) */
+  idKey: string | null
+  /** Whether edits of long strings are logged as text splices */
+  textSplices: boolean
 }
 
 /**
@@ -57,6 +66,44 @@ export interface ProxyDraft<T = any> {
   assignedMap?: Map<PropertyKey, boolean>
   /** Count of positions this draft exists at (for aliasing optimization) */
   aliasCount: number
+  /** Position of the draft in the base state, if it was moved from there */
+  origin?: { parent?: ProxyDraft | null; key?: string | number }
+}
+
+/**
+ * Options for createOps
+ */
+export interface CreateOpsOptions {
+  /**
+   * Generate "test" ops (preconditions) for the primitive values read from the base state while
+   * running the recipe (including keys read while missing), and place them before the
+   * generated ops. The resulting tx is then rejected if any of those values changed by the time
+   * it is applied (optimistic concurrency control).
+   *
+   * Default: false
+   */
+  generateTests?: boolean
+
+  /**
+   * Field that identifies the elements of arrays of entities (e.g. `"id"`). When set, paths
+   * through elements that have a string or number value in that field use an element selector
+   * (e.g. `["tasks", { id: "t42" }]`) instead of the index, so ops keep targeting the same
+   * element even if concurrent txs moved it. Keys of the ops (e.g. splice indexes) are still
+   * positional.
+   *
+   * Default: undefined (paths use indexes)
+   */
+  idKey?: string
+
+  /**
+   * Generate `stringSplice` ops for edits of strings of 32 or more characters (from a text
+   * diff) instead of `set` ops, so only the edited part travels. Only enable it when the log
+   * rebases array indexes (`rebaseArrayIndexes`), since otherwise concurrent text edits are
+   * applied at stale indexes and corrupt the text.
+   *
+   * Default: false
+   */
+  textSplices?: boolean
 }
 
 /**
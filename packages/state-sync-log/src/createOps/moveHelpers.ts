@@ -0,0 +1,139 @@
+/**
+ * Helper functions for moving / copying values between draft positions.
+ * Uses eager op logging - ops are pushed immediately when mutations happen.
+ */
+
+import { isPathPrefix } from "../paths"
+import { parseArrayIndex } from "../utils"
+import { DraftType, type ProxyDraft } from "./interface"
+import { deepClone, getPathOrThrow, getProxyDraft, has, latest, withoutTests } from "./utils"
+
+/**
+ * Converts a key into an array index, or returns null if it is not a valid one.
+ */
+function toArrayIndex(key: string | number): number | null {
+  const index = typeof key === "number" ? key : parseArrayIndex(key)
+  return index !== null && Number.isInteger(index) && index >= 0 ? index : null
+}
+
+function moveOrCopy(
+  kind: "move" | "copy",
+  from: object,
+  fromKey: string | number,
+  to: object,
+  toKey: string | number
+): void {
+  const fromDraft = getProxyDraft(from)
+  const toDraft = getProxyDraft(to)
+  if (!fromDraft || !toDraft || fromDraft.finalities !== toDraft.finalities) {
+    throw new Error(`${kind}() can only be used on drafts of the same createOps call`)
+  }
+
+  // Validate the source
+  const source = latest(fromDraft) as Record<string | number, unknown>
+  let finalFromKey = fromKey
+  if (fromDraft.type === DraftType.Array) {
+    const index = toArrayIndex(fromKey)
+    if (index === null || index >= (source as unknown as unknown[]).length) {
+      throw new Error(`${kind}() source index ${fromKey} out of bounds`)
+    }
+    finalFromKey = index
+  } else if (!has(source, fromKey)) {
+    throw new Error(`${kind}() source property "${fromKey}" does not exist`)
+  }
+
+  // Validate the target
+  if (toDraft.type === DraftType.Array && toArrayIndex(toKey) === null) {
+    throw new Error(`${kind}() requires a valid target array index, got "${toKey}"`)
+  }
+
+  const fromPath = getPathOrThrow(fromDraft)
+  if (kind === "move" && isPathPrefix([...fromPath, finalFromKey], getPathOrThrow(toDraft))) {
+    throw new Error(`Cannot move a value into itself`)
+  }
+
+  const ops = fromDraft.finalities.ops
+  const opsLength = ops.length
+
+  // Perform the mutation through the drafts (this logs the equivalent remove / insert ops)
+  const proxyFrom = from as Record<string | number, unknown>
+  const value = withoutTests(fromDraft, () => proxyFrom[finalFromKey])
+  let inserted = value
+  if (kind === "move") {
+    if (fromDraft.type === DraftType.Array) {
+      ;(from as unknown[]).splice(finalFromKey as number, 1)
+    } else {
+      delete proxyFrom[finalFromKey]
+    }
+  } else {
+    inserted = deepClone(value)
+  }
+
+  const path = getPathOrThrow(toDraft)
+  let finalKey = toKey
+  if (toDraft.type === DraftType.Array) {
+    finalKey = Math.min(toArrayIndex(toKey)!, (latest(toDraft) as unknown[]).length)
+    ;(to as unknown[]).splice(finalKey, 0, inserted)
+  } else {
+    ;(to as Record<string | number, unknown>)[toKey] = inserted
+  }
+
+  // A moved draft now lives under its new parent
+  const movedDraft: ProxyDraft | null = kind === "move" ? getProxyDraft(value) : null
+  if (movedDraft) {
+    movedDraft.origin ??= { parent: movedDraft.parent, key: movedDraft.key }
+    movedDraft.parent = toDraft
+    movedDraft.key = finalKey
+  }
+
+  // Replace the logged ops with a single move / copy op.
+  // When drafts are aliased the logged ops already cover every position, so they are kept.
+  if (fromDraft.aliasCount <= 1 && toDraft.aliasCount <= 1) {
+    ops.length = opsLength
+    ops.push({ kind, fromPath, fromKey: finalFromKey, path, key: finalKey })
+  }
+}
+
+/**
+ * Move a value from one draft position to another (array-to-array, object-to-object or across).
+ * The value is removed from the source first; then it is inserted at the target index (arrays)
+ * or set at the target key (objects).
+ * Generates a single `move` operation.
+ *
+ * @example
+ * ```ts
+ * createOps(state, (draft) => {
+ *   // Move the first card of "todo" to the top of "done"
+ *   move(draft.columns.todo, 0, draft.columns.done, 0);
+ * });
+ * ```
+ */
+export function move(
+  from: object,
+  fromKey: string | number,
+  to: object,
+  toKey: string | number
+): void {
+  moveOrCopy("move", from, fromKey, to, toKey)
+}
+
+/**
+ * Copy a value from one draft position to another (array-to-array, object-to-object or across).
+ * The copy is inserted at the target index (arrays) or set at the target key (objects).
+ * Generates a single `copy` operation.
+ *
+ * @example
+ * ```ts
+ * createOps(state, (draft) => {
+ *   copy(draft.templates, "default", draft.boards, "new");
+ * });
+ * ```
+ */
+export function copy(
+  from: object,
+  fromKey: string | number,
+  to: object,
+  toKey: string | number
+): void {
+  moveOrCopy("copy", from, fromKey, to, toKey)
+}
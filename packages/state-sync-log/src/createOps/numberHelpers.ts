@@ -0,0 +1,71 @@
+/**
+ * Helper functions for numeric operations.
+ * Uses eager op logging - ops are pushed immediately when mutations happen.
+ */
+
+import type { JSONValue } from "../json"
+import { computeIncrement } from "../operations"
+import { getPathOrThrow, getProxyDraft, has, latest } from "./utils"
+
+/**
+ * Options for `increment`.
+ */
+export interface IncrementOptions {
+  /** Lower bound of the resulting value */
+  min?: number
+  /** Upper bound of the resulting value */
+  max?: number
+}
+
+/**
+ * Increment (or decrement, with a negative amount) a number stored at `draft[key]`.
+ * A missing key counts as 0.
+ * Generates an `increment` operation, which is applied relative to the state at apply time,
+ * so concurrent increments from different clients add up instead of overwriting each other.
+ *
+ * @example
+ * ```ts
+ * createOps(state, (draft) => {
+ *   increment(draft.votes, 'option1', 1);
+ *   increment(draft, 'stock', -1, { min: 0 });
+ * });
+ * ```
+ */
+export function increment<T extends object>(
+  draft: T,
+  key: keyof T & (string | number),
+  by: number,
+  options?: IncrementOptions
+): void {
+  const proxyDraft = getProxyDraft(draft)
+  if (!proxyDraft) {
+    throw new Error(`increment() can only be used on drafts`)
+  }
+
+  const source = latest(proxyDraft) as Record<string | number, unknown>
+  const current = (has(source, key) ? source[key] : undefined) as JSONValue
+  if (current !== undefined && typeof current !== "number") {
+    throw new Error(`increment() requires a number, got ${typeof current}`)
+  }
+
+  const op = {
+    kind: "increment" as const,
+    path: getPathOrThrow(proxyDraft),
+    key,
+    by,
+    ...(options?.min !== undefined && { min: options.min }),
+    ...(options?.max !== undefined && { max: options.max }),
+  }
+
+  // Perform the mutation through the draft (this logs an equivalent set op)
+  const ops = proxyDraft.finalities.ops
+  const opsLength = ops.length
+  ;(draft as Record<string | number, unknown>)[key] = computeIncrement(current, op)
+
+  // Replace the logged op with the increment op.
+  // When the draft is aliased the logged ops already cover every position, so they are kept.
+  if (proxyDraft.aliasCount <= 1) {
+    ops.length = opsLength
+    ops.push(op)
+  }
+}
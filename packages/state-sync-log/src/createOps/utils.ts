@@ -4,8 +4,9 @@
  */
 
 import { failure } from "../error"
+import type { PathSegment } from "../json"
 import { PROXY_DRAFT } from "./constant"
-import { DraftType, type ProxyDraft } from "./interface"
+import { DraftType, type Finalities, type ProxyDraft } from "./interface"
 
 // ============================================================================
 // Core Draft Utilities
@@ -112,10 +113,7 @@ export function revokeProxy(proxyDraft: ProxyDraft | null): void {
 /**
  * Get the path from root to this draft
  */
-export function getPath(
-  target: ProxyDraft,
-  path: (string | number)[] = []
-): (string | number)[] | null {
+export function getPath(target: ProxyDraft, path: PathSegment[] = []): PathSegment[] | null {
   if (Object.hasOwn(target, "key") && target.key !== undefined) {
     // Check if the parent still has this draft at this key
     const parentCopy = target.parent?.copy
@@ -125,7 +123,11 @@ export function getPath(
         return null
       }
     }
-    path.push(target.key)
+    path.push(
+      typeof target.key === "number" && target.parent?.type === DraftType.Array
+        ? getArrayElementSegment(target.finalities, latest(target.parent), target.key)
+        : target.key
+    )
   }
   if (target.parent) {
     return getPath(target.parent, path)
@@ -138,7 +140,7 @@ export function getPath(
 /**
  * Get the path from root to this draft, or throw if not available
  */
-export function getPathOrThrow(target: ProxyDraft): (string | number)[] {
+export function getPathOrThrow(target: ProxyDraft): PathSegment[] {
   const path = getPath(target)
   if (!path) {
     throw failure("Cannot determine path for operation")
@@ -146,6 +148,71 @@ export function getPathOrThrow(target: ProxyDraft): (string | number)[] {
   return path
 }
 
+/**
+ * Get the path of a draft in the base state (following the position it was moved from, if any)
+ */
+export function getOriginalPath(target: ProxyDraft): PathSegment[] {
+  const path: PathSegment[] = []
+  let current: ProxyDraft | null | undefined = target
+  while (current) {
+    const { parent, key }: NonNullable<ProxyDraft["origin"]> = current.origin ?? current
+    if (parent && key !== undefined) {
+      path.push(
+        typeof key === "number" && parent.type === DraftType.Array
+          ? getArrayElementSegment(target.finalities, parent.original, key)
+          : key
+      )
+    }
+    current = parent
+  }
+  return path.reverse()
+}
+
+/**
+ * Get the id of an array element (a string or number in the id field of an object), if any
+ */
+function getElementId(element: unknown, idKey: string): string | number | undefined {
+  const value = isDraft(element) ? getValue(element as object) : element
+  if (!isDraftable(value) || Array.isArray(value)) return undefined
+  const id = (value as Record<string, unknown>)[idKey]
+  return typeof id === "string" || typeof id === "number" ? id : undefined
+}
+
+/**
+ * Get the path segment of the element at an array index: an element selector when ids are enabled
+ * and the element has an id that selects it, otherwise the index itself
+ */
+export function getArrayElementSegment(
+  finalities: Finalities,
+  array: unknown,
+  index: number
+): PathSegment {
+  const { idKey } = finalities
+  if (!idKey || !Array.isArray(array)) return index
+
+  const id = getElementId(array[index], idKey)
+  if (id === undefined) return index
+  // Selectors resolve to the first element with the id
+  for (let i = 0; i < index; i++) {
+    if (getElementId(array[i], idKey) === id) return index
+  }
+  return { [idKey]: id }
+}
+
+/**
+ * Run a function without recording tests for the values it reads through drafts
+ */
+export function withoutTests<T>(target: ProxyDraft, fn: () => T): T {
+  const { finalities } = target
+  const tests = finalities.tests
+  finalities.tests = null
+  try {
+    return fn()
+  } finally {
+    finalities.tests = tests
+  }
+}
+
 /**
  * Find all paths to a given draft by searching the tree.
  * This handles aliasing where the same draft exists at multiple positions.
@@ -1,16 +1,24 @@
 import * as Y from "yjs"
+import { ClientId } from "./ClientId"
 import { CheckpointRecord, createCheckpoint } from "./checkpoints"
 import { createClientState } from "./clientState"
-import { failure } from "./error"
+import { type CreateOpsOptions, createOps, type Draft } from "./createOps"
+import { tryApplyTxImmutable } from "./draft"
+import { failure, StateSyncLogError, TxRejectedError } from "./error"
+import { getTxHistory, type TxHistoryEntry, type TxHistoryFilter } from "./history"
 import { JSONObject } from "./json"
+import { normalizeOp } from "./jsonPointer"
 
-import { Op, ValidateFn } from "./operations"
+import type { TypedOp, UntypedOp } from "./opBuilder"
+import { Op, OpInput, TxRejection, ValidateFn } from "./operations"
 
 import { computeReconcileOps } from "./reconcile"
 import { SortedTxEntry } from "./SortedTxEntry"
-import { TxRecord } from "./TxRecord"
-import { appendTx, TxKeyChanges, updateState } from "./txLog"
-import { TxTimestampKey } from "./txTimestamp"
+import { StateTimeline } from "./StateTimeline"
+import { AppliedTx, TxMeta, TxRecord } from "./TxRecord"
+import { appendTx, getNextTxTimestamp, TxKeyChanges, updateState } from "./txLog"
+import { computeTxStatus, isSettledTxStatus, type SettledTxStatus, type TxStatus } from "./txStatus"
+import { type TxTimestamp, TxTimestampKey, txTimestampToKey } from "./txTimestamp"
 import { generateID } from "./utils"
 
 export const getSortedTxsSymbol = Symbol("getSortedTxs")
@@ -49,10 +57,27 @@ export interface StateSyncLogOptions<State extends JSONObject> {
   /**
    * Optional validation function.
    * Runs after each tx's ops are applied.
-   * If it returns false, the tx is rejected (state reverts).
+   * If it returns false (or a rejection object), the tx is rejected (state reverts).
    * MUST be deterministic and consistent across all clients.
    */
-  validate?: (state: State) => boolean
+  validate?: ValidateFn<State>
+
+  /**
+   * Rebase the array indexes of concurrent txs (operational transform for arrays).
+   * When enabled, the `splice`, `set` and `delete` indexes of each tx (and the array indexes in
+   * the paths of its ops) are transformed over the splices of the concurrent txs applied before
+   * it, so inserts land where their author intended and edits keep targeting the same elements.
+   * Txs are considered concurrent when their authors could not have seen each other's tx
+   * (txs from different clients with the same Lamport clock).
+   * Ops targeting elements deleted by a concurrent tx are dropped.
+   * The text indexes of `stringSplice` ops are rebased the same way, so concurrent text edits
+   * that don't overlap merge, and `update` / `reconcileState` emit edits of long strings as
+   * `stringSplice` ops (`set` ops otherwise).
+   * MUST be consistent across all clients.
+   *
+   * Default: false
+   */
+  rebaseArrayIndexes?: boolean
 
   /**
    * Timestamp retention window in milliseconds.
@@ -64,21 +89,145 @@ export interface StateSyncLogOptions<State extends JSONObject> {
   retentionWindowMs: number | undefined
 }
 
+/**
+ * Callback invoked when the state changes.
+ * - getAppliedOps: lazily returns the ops that changed the state.
+ * - getAppliedTxs: lazily returns the txs newly applied in this update (including their metadata).
+ */
+export type StateSyncLogSubscriber<State extends JSONObject> = (
+  newState: State,
+  getAppliedOps: () => readonly Op[],
+  getAppliedTxs: () => readonly AppliedTx[]
+) => void
+
+/**
+ * Options for emitting a tx.
+ */
+export interface EmitOptions {
+  /**
+   * Optional app metadata to attach to the tx (e.g. author, label, correlation id).
+   * It is replicated with the tx but never used for state calculation.
+   */
+  meta?: TxMeta
+
+  /**
+   * If true, the tx is checked against the current local state first (see `preview`), and if it
+   * would be rejected a `TxRejectedError` is thrown and nothing is written to the log.
+   * Note that a tx accepted locally may still be rejected later because of concurrent txs.
+   *
+   * Default: false
+   */
+  strict?: boolean
+}
+
+/**
+ * Options for `preview`.
+ */
+export interface PreviewOptions {
+  /**
+   * App metadata the tx would carry (validators receive it in their context).
+   */
+  meta?: TxMeta
+}
+
+/**
+ * Result of `preview`.
+ */
+export interface TxPreview<State extends JSONObject> {
+  /**
+   * The state the tx would result in (the current state if it would be rejected).
+   */
+  readonly state: State
+  /**
+   * Why the tx would be rejected, or undefined if it would be applied.
+   */
+  readonly rejection: TxRejection | undefined
+}
+
+/**
+ * Options for `update`.
+ */
+export interface UpdateOptions extends EmitOptions, Omit<CreateOpsOptions, "textSplices"> {}
+
+/**
+ * Result of `update`.
+ */
+export interface UpdateResult<State extends JSONObject> {
+  /**
+   * The ops produced by the recipe (empty if it made no changes, in which case nothing is emitted).
+   */
+  readonly ops: Op[]
+  /**
+   * The optimistic state after the update: the one produced by the recipe if the tx was accepted
+   * locally, or the unchanged state otherwise.
+   */
+  readonly nextState: State
+  /**
+   * Whether the local validator accepts the tx against the current state (even if the tx is not
+   * applied yet, e.g. inside an outer `yDoc.transact`). It may still be rejected later because
+   * of concurrent txs. True if nothing was emitted.
+   */
+  readonly accepted: boolean
+  /**
+   * Key of the emitted tx, or undefined if nothing was emitted.
+   */
+  readonly txKey: TxTimestampKey | undefined
+}
+
+/**
+ * Handle to a tx emitted by this client.
+ */
+export interface EmittedTx {
+  /**
+   * Key of the emitted tx. Use it to query its status.
+   */
+  readonly txKey: TxTimestampKey
+}
+
 export interface StateSyncLogController<State extends JSONObject> {
   /**
    * Returns the current state.
    */
   getState(): State
 
+  /**
+   * Returns the id of this client.
+   */
+  getClientId(): ClientId
+
   /**
    * Subscribes to state changes.
    */
-  subscribe(callback: (newState: State, getAppliedOps: () => readonly Op[]) => void): () => void
+  subscribe(callback: StateSyncLogSubscriber<State>): () => void
+
+  /**
+   * Emits a new tx built with the typed op builder (`ops<State>()`), whose ops were checked
+   * against `State` at compile time.
+   * Returns a handle to track the tx lifecycle.
+   */
+  emit(ops: readonly TypedOp<State>[], options?: EmitOptions): EmittedTx
 
   /**
    * Emits a new tx (list of operations) to the log.
+   * Op paths may also be JSON Pointers (they are stored as paths).
+   * Returns a handle to track the tx lifecycle.
    */
-  emit(ops: Op[]): void
+  emit(ops: readonly UntypedOp<OpInput>[], options?: EmitOptions): EmittedTx
+
+  /**
+   * Applies ops to the current state without emitting them (a dry run), returning the state they
+   * would result in and why they would be rejected (if they would).
+   * The validation context gets the `txKey` and `txTimestamp` the tx would get if emitted now,
+   * which are placeholders: a later `emit` gets new ones. `update` and strict emits validate the
+   * tx with the same ones it is emitted with.
+   */
+  preview(ops: readonly OpInput[], options?: PreviewOptions): TxPreview<State>
+
+  /**
+   * Runs a `createOps` recipe against the current state and emits the resulting ops as a tx.
+   * Does nothing if the recipe makes no changes.
+   */
+  update(recipe: (draft: Draft<State>) => void, options?: UpdateOptions): UpdateResult<State>
 
   /**
    * Reconciles the current state with the target state.
@@ -117,6 +266,57 @@ export interface StateSyncLogController<State extends JSONObject> {
    */
   isLogEmpty(): boolean
 
+  // --- Tx Lifecycle ---
+
+  /**
+   * Returns the lifecycle status of a tx given the key returned by `emit`.
+   */
+  getTxStatus(txKey: TxTimestampKey): TxStatus
+
+  /**
+   * Returns why a tx was rejected in the current state, or undefined if it was not rejected.
+   */
+  getTxRejection(txKey: TxTimestampKey): TxRejection | undefined
+
+  /**
+   * Returns a promise that resolves once the tx is settled:
+   * - "rejected": the tx was rejected in the current state.
+   * - "finalized": the tx was included in a checkpoint.
+   * - "unknown": the tx left the log without being finalized (e.g. pruned by the retention window).
+   *
+   * Note that a rejection is reported as soon as it is observed locally, even before finalization.
+   * The promise is rejected if the log is disposed before the tx settles.
+   */
+  whenTxSettled(txKey: TxTimestampKey): Promise<SettledTxStatus>
+
+  /**
+   * Returns the keys of the txs emitted by this client that are still in the log
+   * and not finalized yet, in log order.
+   */
+  getPendingLocalTxs(): readonly TxTimestampKey[]
+
+  // --- History ---
+
+  /**
+   * Returns the txs currently in the log (active epoch and any future ones), in log order,
+   * optionally filtered by author, time range and touched path.
+   */
+  getHistory(filter?: TxHistoryFilter): TxHistoryEntry[]
+
+  /**
+   * Returns the state right after the given tx (by the key returned by `emit` or its key in the log)
+   * was processed, replaying from the base checkpoint.
+   * Returns undefined if the tx is not in the log.
+   */
+  getStateAt(txKey: TxTimestampKey): State | undefined
+
+  /**
+   * Returns the state after the last tx (in log order) authored at or before the given
+   * wall clock time, replaying from the base checkpoint.
+   * Returns the checkpoint state if there is no such tx.
+   */
+  getStateAtTime(wallClock: number): State
+
   /**
    * Internal/Testing: Returns all txs currently in the log, sorted.
    */
@@ -137,6 +337,7 @@ export function createStateSyncLog<State extends JSONObject>(
     yjsOrigin,
     validate,
     retentionWindowMs,
+    rebaseArrayIndexes,
   } = options
 
   if (clientId.includes(";")) {
@@ -149,15 +350,44 @@ export function createStateSyncLog<State extends JSONObject>(
   // Cast validate to basic type to match internal ClientState
   const clientState = createClientState(
     validate as unknown as ValidateFn<JSONObject>,
-    retentionWindowMs ?? Number.POSITIVE_INFINITY
+    retentionWindowMs ?? Number.POSITIVE_INFINITY,
+    { rebaseArrayIndexes }
   )
 
+  // Time travel
+  const timeline = new StateTimeline(clientState.stateCalculator)
+
   // Listeners
-  const subscribers = new Set<(state: State, getAppliedOps: () => readonly Op[]) => void>()
+  const subscribers = new Set<StateSyncLogSubscriber<State>>()
 
-  const notifySubscribers = (state: State, getAppliedOps: () => readonly Op[]) => {
+  const notifySubscribers = (
+    state: State,
+    getAppliedOps: () => readonly Op[],
+    getAppliedTxs: () => readonly AppliedTx[]
+  ) => {
     for (const sub of subscribers) {
-      sub(state, getAppliedOps)
+      sub(state, getAppliedOps, getAppliedTxs)
+    }
+  }
+
+  // Settlement waiters per tx key
+  const txWaiters = new Map<
+    TxTimestampKey,
+    { resolve: (status: SettledTxStatus) => void; reject: (err: Error) => void }[]
+  >()
+
+  const getTxStatusInternal = (txKey: TxTimestampKey): TxStatus =>
+    computeTxStatus(txKey, yTx, clientState.stateCalculator)
+
+  const settleTxWaiters = () => {
+    for (const [txKey, waiters] of txWaiters) {
+      const status = getTxStatusInternal(txKey)
+      if (isSettledTxStatus(status)) {
+        txWaiters.delete(txKey)
+        for (const waiter of waiters) {
+          waiter.resolve(status)
+        }
+      }
     }
   }
 
@@ -185,7 +415,7 @@ export function createStateSyncLog<State extends JSONObject>(
 
   // Update Logic with incremental changes
   const runUpdate = (txChanges: TxKeyChanges | undefined) => {
-    const { state, getAppliedOps } = updateState(
+    const { state, getAppliedOps, getAppliedTxs } = updateState(
       yDoc,
       yTx,
       yCheckpoint,
@@ -193,7 +423,8 @@ export function createStateSyncLog<State extends JSONObject>(
       clientState,
       txChanges
     )
-    notifySubscribers(state as State, getAppliedOps)
+    notifySubscribers(state as State, getAppliedOps, getAppliedTxs)
+    settleTxWaiters()
   }
 
   // Tx observer
@@ -232,13 +463,61 @@ export function createStateSyncLog<State extends JSONObject>(
     return clientState.cachedFinalizedEpoch + 1
   }
 
+  const getNextTxTimestampInternal = () =>
+    getNextTxTimestamp(getActiveEpochInternal(), clientId, clientState)
+
+  // Dry run of a tx against the current local state, validated with the timestamp it would get
+  // if emitted now
+  const previewOps = (
+    ops: readonly Op[],
+    meta: TxMeta | undefined,
+    txTimestamp: TxTimestamp
+  ): TxPreview<State> => {
+    const currentState = (clientState.stateCalculator.getCachedState() ?? {}) as State
+    const validation = validate && {
+      validateFn: validate,
+      txKey: txTimestampToKey(txTimestamp),
+      txTimestamp,
+    }
+    return tryApplyTxImmutable(currentState, { ops, meta }, validation)
+  }
+
+  // Appends a tx to the log, with the timestamp it was previewed with (if any)
+  const emitOps = (
+    ops: readonly Op[],
+    meta: TxMeta | undefined,
+    txTimestamp?: TxTimestamp
+  ): TxTimestampKey => {
+    let txKey!: TxTimestampKey
+    yDoc.transact(() => {
+      const activeEpoch = getActiveEpochInternal()
+      txKey = appendTx(
+        ops,
+        yTx,
+        activeEpoch,
+        clientId,
+        clientState,
+        undefined,
+        meta,
+        undefined,
+        txTimestamp
+      )
+    }, yjsOrigin)
+    return txKey
+  }
+
   return {
     getState(): State {
       assertNotDisposed()
       return (clientState.stateCalculator.getCachedState() ?? {}) as State
     },
 
-    subscribe(callback: (newState: State, getAppliedOps: () => readonly Op[]) => void): () => void {
+    getClientId(): ClientId {
+      assertNotDisposed()
+      return clientId
+    },
+
+    subscribe(callback: StateSyncLogSubscriber<State>): () => void {
       assertNotDisposed()
       subscribers.add(callback)
       return () => {
@@ -246,18 +525,56 @@ export function createStateSyncLog<State extends JSONObject>(
       }
     },
 
-    emit(ops: Op[]): void {
+    emit(ops: readonly OpInput[], options?: EmitOptions): EmittedTx {
       assertNotDisposed()
-      yDoc.transact(() => {
-        const activeEpoch = getActiveEpochInternal()
-        appendTx(ops, yTx, activeEpoch, clientId, clientState)
-      }, yjsOrigin)
+      const normalizedOps = ops.map(normalizeOp)
+      if (!options?.strict) {
+        return { txKey: emitOps(normalizedOps, options?.meta) }
+      }
+
+      // Emitted with the timestamp it was validated with
+      const txTimestamp = getNextTxTimestampInternal()
+      const { rejection } = previewOps(normalizedOps, options.meta, txTimestamp)
+      if (rejection) {
+        throw new TxRejectedError(rejection)
+      }
+      return { txKey: emitOps(normalizedOps, options.meta, txTimestamp) }
+    },
+
+    preview(ops: readonly OpInput[], options?: PreviewOptions): TxPreview<State> {
+      assertNotDisposed()
+      return previewOps(ops.map(normalizeOp), options?.meta, getNextTxTimestampInternal())
+    },
+
+    // The draft type of a generic State is too deep for the compiler, so it is typed in the
+    // controller interface only
+    update(recipe: (draft: never) => void, options?: UpdateOptions): UpdateResult<State> {
+      assertNotDisposed()
+      const currentState = (clientState.stateCalculator.getCachedState() ?? {}) as State
+      // Text splices are only safe when their indexes are rebased over concurrent edits
+      const { ops } = createOps<object>(currentState, recipe as (draft: object) => void, {
+        ...options,
+        textSplices: rebaseArrayIndexes,
+      })
+      if (ops.length === 0) {
+        return { ops, nextState: currentState, accepted: true, txKey: undefined }
+      }
+
+      // Checked against the local validator before emitting (with the timestamp it is emitted
+      // with), since the tx is not applied yet inside an outer yDoc.transact
+      const txTimestamp = getNextTxTimestampInternal()
+      const { state, rejection } = previewOps(ops, options?.meta, txTimestamp)
+      if (options?.strict && rejection) {
+        throw new TxRejectedError(rejection)
+      }
+      const txKey = emitOps(ops, options?.meta, txTimestamp)
+      return { ops, nextState: state, accepted: rejection === undefined, txKey }
     },
 
     reconcileState(targetState: State): void {
       assertNotDisposed()
       const currentState = (clientState.stateCalculator.getCachedState() ?? {}) as State
-      const ops = computeReconcileOps(currentState, targetState)
+      const ops = computeReconcileOps(currentState, targetState, rebaseArrayIndexes)
       if (ops.length > 0) {
         this.emit(ops)
       }
@@ -278,6 +595,16 @@ export function createStateSyncLog<State extends JSONObject>(
       yTx.unobserve(txObserver)
       yCheckpoint.unobserve(checkpointObserver)
       subscribers.clear()
+
+      const disposedError = new StateSyncLogError(
+        "StateSyncLog has been disposed and cannot be used"
+      )
+      for (const waiters of txWaiters.values()) {
+        for (const waiter of waiters) {
+          waiter.reject(disposedError)
+        }
+      }
+      txWaiters.clear()
     },
 
     getActiveEpoch(): number {
@@ -322,6 +649,65 @@ export function createStateSyncLog<State extends JSONObject>(
       return yTx.size === 0 && yCheckpoint.size === 0
     },
 
+    getTxStatus(txKey: TxTimestampKey): TxStatus {
+      assertNotDisposed()
+      return getTxStatusInternal(txKey)
+    },
+
+    getTxRejection(txKey: TxTimestampKey): TxRejection | undefined {
+      assertNotDisposed()
+      return clientState.stateCalculator.getTxRejection(txKey)
+    },
+
+    whenTxSettled(txKey: TxTimestampKey): Promise<SettledTxStatus> {
+      assertNotDisposed()
+      const status = getTxStatusInternal(txKey)
+      if (isSettledTxStatus(status)) {
+        return Promise.resolve(status)
+      }
+      return new Promise((resolve, reject) => {
+        let waiters = txWaiters.get(txKey)
+        if (!waiters) {
+          waiters = []
+          txWaiters.set(txKey, waiters)
+        }
+        waiters.push({ resolve, reject })
+      })
+    },
+
+    getPendingLocalTxs(): readonly TxTimestampKey[] {
+      assertNotDisposed()
+      const result: TxTimestampKey[] = []
+      const seen = new Set<TxTimestampKey>()
+      // Re-emits (by any client) of our txs keep our original key as dedup key
+      for (const entry of clientState.stateCalculator.getSortedTxs()) {
+        const dedupKey = entry.dedupTxTimestampKey
+        if (entry.dedupTxTimestamp.clientId !== clientId || seen.has(dedupKey)) {
+          continue
+        }
+        seen.add(dedupKey)
+        if (getTxStatusInternal(dedupKey) !== "finalized") {
+          result.push(dedupKey)
+        }
+      }
+      return result
+    },
+
+    getHistory(filter?: TxHistoryFilter): TxHistoryEntry[] {
+      assertNotDisposed()
+      return getTxHistory(clientState.stateCalculator, filter)
+    },
+
+    getStateAt(txKey: TxTimestampKey): State | undefined {
+      assertNotDisposed()
+      return timeline.getStateAt(txKey) as State | undefined
+    },
+
+    getStateAtTime(wallClock: number): State {
+      assertNotDisposed()
+      return timeline.getStateAtTime(wallClock) as State
+    },
+
     [getSortedTxsSymbol](): readonly SortedTxEntry[] {
       assertNotDisposed()
       return clientState.stateCalculator.getSortedTxs()
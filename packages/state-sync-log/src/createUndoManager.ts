@@ -0,0 +1,218 @@
+import type { StateSyncLogController } from "./createStateSyncLog"
+import { computeInverseOps, type InverseOpsResult } from "./inverseOps"
+import type { JSONObject, JSONValue, Path } from "./json"
+import { getOpTouchedPaths, type Op, type TxRejection } from "./operations"
+import { getValueAtPath } from "./paths"
+import { parseTxTimestampKey, type TxTimestampKey } from "./txTimestamp"
+import { deepEqual } from "./utils"
+
+/**
+ * Outcome of an undo / redo.
+ * - applied: the inverse tx was emitted and applied.
+ * - pending: the inverse tx was emitted inside an outer Y.js transaction and is not processed yet.
+ * - rejected: the inverse tx was emitted but rejected (e.g. by the validator). The entry is dropped.
+ * - empty: there was nothing (left) to undo / redo.
+ */
+export type UndoRedoStatus = "applied" | "pending" | "rejected" | "empty"
+
+/**
+ * Result of an undo / redo.
+ */
+export type UndoRedoResult = {
+  status: UndoRedoStatus
+  /**
+   * Key of the emitted inverse tx (unset when status is "empty").
+   */
+  txKey: TxTimestampKey | undefined
+  /**
+   * Why the inverse tx was rejected (only set when status is "rejected").
+   */
+  rejection: TxRejection | undefined
+  /**
+   * Number of entries skipped (and dropped) because other clients changed their target paths
+   * in the meantime (or removed them).
+   */
+  skippedCount: number
+}
+
+/**
+ * Undo / redo manager for the txs of a single client.
+ */
+export interface UndoManager {
+  /**
+   * Undoes the most recent local tx by emitting its inverse as a new tx.
+   * Entries whose target paths were changed by other clients since are skipped.
+   */
+  undo(): UndoRedoResult
+
+  /**
+   * Redoes the most recently undone tx by emitting its inverse as a new tx.
+   * Entries whose target paths were changed by other clients since are skipped.
+   */
+  redo(): UndoRedoResult
+
+  /**
+   * Returns true if there is at least one entry in the undo stack.
+   */
+  canUndo(): boolean
+
+  /**
+   * Returns true if there is at least one entry in the redo stack.
+   */
+  canRedo(): boolean
+
+  /**
+   * Clears both stacks.
+   */
+  clear(): void
+
+  /**
+   * Stops recording txs and clears both stacks.
+   */
+  dispose(): void
+}
+
+/**
+ * An entry in the undo / redo stacks.
+ */
+type StackEntry = {
+  /** Ops that revert the recorded tx */
+  ops: Op[]
+  /** Values at the paths touched by `ops` right after the recorded tx was applied */
+  expected: { path: Path; value: JSONValue }[]
+}
+
+function createStackEntry({ inverseOps, stateAfter }: InverseOpsResult): StackEntry {
+  const expected: StackEntry["expected"] = []
+  for (const op of inverseOps) {
+    for (const path of getOpTouchedPaths(op)) {
+      expected.push({ path, value: getValueAtPath(stateAfter, path) })
+    }
+  }
+  return { ops: inverseOps, expected }
+}
+
+/**
+ * Checks if any of the paths of an entry changed since it was recorded.
+ * Thanks to structural sharing unchanged values usually keep their identity,
+ * so deep equality is only needed as a fallback (e.g. after a full recalculation).
+ */
+function hasConflict(state: JSONObject, entry: StackEntry): boolean {
+  return entry.expected.some(({ path, value }) => {
+    const current = getValueAtPath(state, path)
+    return current !== value && !deepEqual(current, value)
+  })
+}
+
+/**
+ * Creates an undo / redo manager for the local client of a StateSyncLog.
+ *
+ * It records the txs authored by this client as they get applied, together with their inverse ops
+ * (computed against the exact state each tx was applied to). Undoing emits the inverse ops as a
+ * new tx, so undos replicate to other clients like any other change.
+ *
+ * Since other clients may have changed the same data in the meantime, an entry is only undone
+ * (or redone) if the values at the paths it touches are still the ones it left behind.
+ * Otherwise it is skipped, so remote changes are never overwritten.
+ */
+export function createUndoManager<State extends JSONObject>(
+  log: StateSyncLogController<State>
+): UndoManager {
+  const clientId = log.getClientId()
+
+  let undoStack: StackEntry[] = []
+  let redoStack: StackEntry[] = []
+
+  // Keys of the txs emitted by the manager itself, which must not be recorded
+  const ownTxKeys = new Set<TxTimestampKey>()
+  let emitting = false
+
+  const unsubscribe = log.subscribe((_state, _getAppliedOps, getAppliedTxs) => {
+    for (const tx of getAppliedTxs()) {
+      if (ownTxKeys.delete(tx.txKey) || emitting) continue
+      if (parseTxTimestampKey(tx.txKey).clientId !== clientId) continue
+
+      const inverse = computeInverseOps(tx.stateBefore, tx.ops)
+      if (inverse.inverseOps.length > 0) {
+        undoStack.push(createStackEntry(inverse))
+        redoStack = []
+      }
+    }
+  })
+
+  const perform = (from: StackEntry[], to: StackEntry[]): UndoRedoResult => {
+    let skippedCount = 0
+
+    while (from.length > 0) {
+      const entry = from.pop()!
+      const state = log.getState()
+      let inverse: InverseOpsResult | undefined
+      if (!hasConflict(state, entry)) {
+        try {
+          inverse = computeInverseOps(state, entry.ops)
+        } catch {
+          // The ops no longer apply (e.g. their container is gone)
+        }
+      }
+      if (!inverse) {
+        skippedCount++
+        continue
+      }
+
+      let txKey: TxTimestampKey
+      emitting = true
+      try {
+        txKey = log.emit(entry.ops).txKey
+      } finally {
+        emitting = false
+      }
+
+      const status = log.getTxStatus(txKey)
+      if (status === "rejected") {
+        return { status, txKey, rejection: log.getTxRejection(txKey), skippedCount }
+      }
+      if (status === "pending") {
+        // Not processed yet, make sure it is not recorded once it is
+        ownTxKeys.add(txKey)
+      }
+
+      to.push(createStackEntry(inverse))
+      return {
+        status: status === "pending" ? "pending" : "applied",
+        txKey,
+        rejection: undefined,
+        skippedCount,
+      }
+    }
+
+    return { status: "empty", txKey: undefined, rejection: undefined, skippedCount }
+  }
+
+  return {
+    undo() {
+      return perform(undoStack, redoStack)
+    },
+
+    redo() {
+      return perform(redoStack, undoStack)
+    },
+
+    canUndo() {
+      return undoStack.length > 0
+    },
+
+    canRedo() {
+      return redoStack.length > 0
+    },
+
+    clear() {
+      undoStack = []
+      redoStack = []
+    },
+
+    dispose() {
+      unsubscribe()
+      this.clear()
+    },
+  }
+}
@@ -0,0 +1,125 @@
+import { failure } from "./error"
+import type { JSONObject, Path } from "./json"
+import { toPath } from "./jsonPointer"
+import { getOpTouchedPaths, type Op, type ValidateFn } from "./operations"
+import { pathsIntersect } from "./paths"
+
+/**
+ * A named validation rule.
+ */
+export type ValidationRule<State extends JSONObject> = {
+  /**
+   * Unique name of the rule, reported as the `ruleId` of the txs it rejects.
+   */
+  id: string
+  /**
+   * Path prefixes (paths or JSON Pointers) the rule checks. The rule only runs for txs with ops
+   * that touch one of them, their ancestors or their descendants.
+   * A rule must only read the state under its scopes, otherwise changes elsewhere could make
+   * it fail unnoticed.
+   * If omitted the rule runs for every tx.
+   */
+  scopes?: readonly (Path | string)[]
+  /**
+   * Validates the candidate state. A `ruleId` in the result is replaced by the rule id.
+   */
+  validate: ValidateFn<State>
+}
+
+/**
+ * A registry of named validation rules, combined into a single validation function.
+ */
+export interface ValidationRules<State extends JSONObject> {
+  /**
+   * Registers a rule. Rules run in registration order and the first failing one rejects the tx.
+   * Every client must register the same rules (in the same order) before the log is created.
+   */
+  add(rule: ValidationRule<State>): void
+
+  /**
+   * Returns the ids of the registered rules, in registration order.
+   */
+  getRuleIds(): string[]
+
+  /**
+   * The validation function that runs the rules, to pass as the `validate` option.
+   */
+  readonly validate: ValidateFn<State>
+}
+
+/**
+ * A registered rule, with its scopes normalized.
+ */
+type RegisteredRule<State extends JSONObject> = {
+  id: string
+  scopes: readonly Path[] | undefined
+  validate: ValidateFn<State>
+}
+
+function opsTouchScopes(ops: readonly Op[], scopes: readonly Path[]): boolean {
+  return ops.some((op) =>
+    getOpTouchedPaths(op).some((path) => scopes.some((scope) => pathsIntersect(path, scope)))
+  )
+}
+
+/**
+ * Creates a registry of named validation rules, so rules can be registered by separate feature
+ * modules instead of growing a single validation function.
+ *
+ * Each rule may be scoped to path prefixes, so only the rules whose scopes intersect the paths
+ * touched by the ops of a tx run. The id of the failing rule is reported as the `ruleId` of the
+ * rejection.
+ *
+ * Rules cannot be added once the registry started validating txs, since that would change the
+ * outcome of txs already validated by other clients.
+ *
+ * @example
+ * ```ts
+ * const rules = createValidationRules<State>()
+ * rules.add({
+ *   id: "wipLimit",
+ *   scopes: [["columns", "doing"]],
+ *   validate: (state) => state.columns.doing.length <= 3 || { message: "WIP limit reached" },
+ * })
+ * const log = createStateSyncLog<State>({ yDoc, validate: rules.validate })
+ * ```
+ *
+ * @param initialRules - Rules to register right away.
+ * @returns The rule registry.
+ */
+export function createValidationRules<State extends JSONObject>(
+  initialRules?: readonly ValidationRule<State>[]
+): ValidationRules<State> {
+  const rules: RegisteredRule<State>[] = []
+  let started = false
+
+  const add = (rule: ValidationRule<State>) => {
+    if (started) {
+      failure(`Validation rule "${rule.id}" cannot be added after validation started`)
+    }
+    if (rules.some((r) => r.id === rule.id)) {
+      failure(`Validation rule "${rule.id}" is already registered`)
+    }
+    rules.push({ id: rule.id, scopes: rule.scopes?.map(toPath), validate: rule.validate })
+  }
+
+  initialRules?.forEach(add)
+
+  const validate: ValidateFn<State> = (state, context) => {
+    started = true
+    for (const rule of rules) {
+      if (rule.scopes && !opsTouchScopes(context.ops, rule.scopes)) continue
+
+      const result = rule.validate(state, context)
+      if (result === true) continue
+      return result === false ? { ruleId: rule.id } : { ...result, ruleId: rule.id }
+    }
+    return true
+  }
+
+  return {
+    add,
+    getRuleIds: () => rules.map((rule) => rule.id),
+    validate,
+  }
+}
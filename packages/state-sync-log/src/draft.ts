@@ -1,7 +1,25 @@
 import { failure } from "./error"
 import type { JSONObject, JSONRecord, JSONValue, Path } from "./json"
-import type { Op, ValidateFn } from "./operations"
+import {
+  checkTestOp,
+  computeIncrement,
+  computeStringSplice,
+  matchesWhere,
+  type Op,
+  type TxRejection,
+  updateMatchedElement,
+  type ValidateFn,
+} from "./operations"
+import {
+  describeSegment,
+  findSelectedIndex,
+  getValueAtPath,
+  isElementSelector,
+  isPathPrefix,
+  toIndexPath,
+} from "./paths"
 import { TxRecord } from "./TxRecord"
+import type { TxTimestamp, TxTimestampKey } from "./txTimestamp"
 import { deepEqual, isObject, parseArrayIndex } from "./utils"
 
 /**
@@ -99,11 +117,23 @@ function ensureOwnedPath<T extends JSONObject>(
   let current: JSONRecord | JSONValue[] = ctx.root
 
   for (let i = 0; i < path.length; i++) {
-    const segment = path[i]
-    const isArrayIndex = typeof segment === "number"
-
+    let segment = path[i]
+    if (isElementSelector(segment)) {
+      if (!Array.isArray(current)) {
+        failure(`Expected array at path segment ${describeSegment(segment)}`)
+      }
+      const index = findSelectedIndex(current, segment)
+      if (index < 0) {
+        failure(`No element matches path segment ${describeSegment(segment)}`)
+      }
+      segment = index
+    }
+    if (typeof segment === "string" && Array.isArray(current)) {
+      // Numeric strings (e.g. from JSON Pointers) address array elements
+      segment = parseArrayIndex(segment) ?? segment
+    }
     // Validate container type
-    if (isArrayIndex) {
+    if (typeof segment === "number") {
       if (!Array.isArray(current)) {
         failure(`Expected array at path segment ${segment}`)
       }
@@ -206,6 +236,44 @@ export function draftSplice<T extends JSONObject>(
   }
 }
 
+/**
+ * Applies a single "stringSplice" operation to the draft with copy-on-write.
+ */
+export function draftStringSplice<T extends JSONObject>(
+  ctx: DraftContext<T>,
+  op: Extract<Op, { kind: "stringSplice" }>
+): void {
+  const container = ensureOwnedPath(ctx, op.path)
+  if (!isObject(container)) {
+    failure("stringSplice requires object or array container")
+  }
+  const key = Array.isArray(container) ? toArrayIndex(op.key, op.kind) : op.key
+  const record = container as Record<string | number, JSONValue>
+  record[key] = computeStringSplice(Object.hasOwn(record, key) ? record[key] : undefined, op)
+}
+
+/**
+ * Applies a single "increment" operation to the draft with copy-on-write.
+ */
+export function draftIncrement<T extends JSONObject>(
+  ctx: DraftContext<T>,
+  op: Extract<Op, { kind: "increment" }>
+): void {
+  const container = ensureOwnedPath(ctx, op.path)
+  if (!isObject(container)) {
+    failure("increment requires object or array container")
+  }
+  let key: string | number = op.key
+  if (Array.isArray(container)) {
+    key = toArrayIndex(key, op.kind)
+    if (key >= container.length) {
+      failure(`Index ${key} out of bounds`)
+    }
+  }
+  const record = container as Record<string | number, JSONValue>
+  record[key] = computeIncrement(Object.hasOwn(record, key) ? record[key] : undefined, op)
+}
+
 /**
  * Applies a single "addToSet" operation to the draft with copy-on-write.
  */
@@ -243,6 +311,126 @@ export function draftDeleteFromSet<T extends JSONObject>(
   }
 }
 
+/**
+ * Applies a single "updateWhere" operation to the draft with copy-on-write.
+ * Only the matched elements are cloned.
+ */
+export function draftUpdateWhere<T extends JSONObject>(
+  ctx: DraftContext<T>,
+  op: Extract<Op, { kind: "updateWhere" }>
+): void {
+  const container = ensureOwnedPath(ctx, op.path)
+  if (!Array.isArray(container)) {
+    failure("updateWhere requires array container")
+  }
+  for (let i = 0; i < container.length; i++) {
+    const item = container[i]
+    if (matchesWhere(item, op.where)) {
+      updateMatchedElement(ensureOwned(ctx, container, i, item) as JSONRecord, op, false)
+    }
+  }
+}
+
+/**
+ * Converts a key into an array index.
+ * Throws if the key is not a valid index.
+ */
+function toArrayIndex(key: string | number, opKind: string): number {
+  const index = typeof key === "number" ? key : parseArrayIndex(key)
+  if (index === null || !Number.isInteger(index) || index < 0) {
+    failure(`${opKind} requires a valid array index, got "${key}"`)
+  }
+  return index
+}
+
+/**
+ * Returns a version of the value that does not share any owned (mutable) object with the draft,
+ * so it can be placed at a second position without later mutations affecting both.
+ * Objects that are not owned are never mutated in place, so they can be shared as they are.
+ */
+function unshareOwned<T extends JSONObject>(ctx: DraftContext<T>, value: JSONValue): JSONValue {
+  if (!isObject(value) || !ctx.ownedObjects.has(value)) {
+    return value
+  }
+  const clone = shallowClone(value) as Record<string | number, JSONValue>
+  for (const key of Object.keys(clone)) {
+    clone[key] = unshareOwned(ctx, clone[key])
+  }
+  return clone as JSONObject
+}
+
+/**
+ * Applies a single "move" or "copy" operation to the draft with copy-on-write.
+ * The source is read (and removed for moves) first, then the target path is resolved and the value
+ * is inserted (arrays) or set (objects).
+ */
+export function draftMoveOrCopy<T extends JSONObject>(
+  ctx: DraftContext<T>,
+  kind: "move" | "copy",
+  fromPath: Path,
+  fromKey: string | number,
+  path: Path,
+  key: string | number
+): void {
+  if (
+    kind === "move" &&
+    isPathPrefix(toIndexPath(ctx.root, [...fromPath, fromKey]), toIndexPath(ctx.root, path))
+  ) {
+    failure("Cannot move a value into itself")
+  }
+
+  // Copies only read the source, so there is no need to clone it
+  const source =
+    kind === "move" ? ensureOwnedPath(ctx, fromPath) : getValueAtPath(ctx.root, fromPath)
+  if (!isObject(source)) {
+    failure(`${kind} requires an existing object or array source container`)
+  }
+
+  let value: JSONValue
+  if (Array.isArray(source)) {
+    const index = toArrayIndex(fromKey, kind)
+    if (index >= source.length) {
+      failure(`${kind} source index ${index} out of bounds`)
+    }
+    value = source[index]
+    if (kind === "move") {
+      source.splice(index, 1)
+    }
+  } else {
+    if (!Object.hasOwn(source, fromKey)) {
+      failure(`${kind} source property "${fromKey}" does not exist`)
+    }
+    value = (source as JSONRecord)[fromKey]
+    if (kind === "move") {
+      delete (source as JSONRecord)[fromKey]
+    }
+  }
+
+  const target = ensureOwnedPath(ctx, path)
+  if (!isObject(target)) {
+    failure(`${kind} requires object or array target container`)
+  }
+  // A moved value only lives at its new position, but a copy must not share mutable objects
+  const finalValue = kind === "copy" ? unshareOwned(ctx, value) : value
+  if (Array.isArray(target)) {
+    const index = toArrayIndex(key, kind)
+    target.splice(Math.min(index, target.length), 0, finalValue)
+  } else {
+    ;(target as JSONRecord)[key] = finalValue
+  }
+}
+
+/**
+ * Applies a "replace" operation to the draft (the new root is not owned, so it is cloned on write).
+ */
+function draftReplace<T extends JSONObject>(ctx: DraftContext<T>, value: JSONObject): void {
+  if (!isObject(value)) {
+    failure("replace requires an object or array value")
+  }
+  ctx.root = value as T
+  ctx.isRootOwned = false
+}
+
 /**
  * Applies a single operation to the draft with copy-on-write.
  */
@@ -263,11 +451,117 @@ export function applyOpToDraft<T extends JSONObject>(ctx: DraftContext<T>, op: O
     case "deleteFromSet":
       draftDeleteFromSet(ctx, op.path, op.value)
       break
+    case "increment":
+      draftIncrement(ctx, op)
+      break
+    case "stringSplice":
+      draftStringSplice(ctx, op)
+      break
+    case "updateWhere":
+      draftUpdateWhere(ctx, op)
+      break
+    case "test":
+      checkTestOp(ctx.root, op)
+      break
+    case "move":
+    case "copy":
+      draftMoveOrCopy(ctx, op.kind, op.fromPath, op.fromKey, op.path, op.key)
+      break
+    case "replace":
+      draftReplace(ctx, op.value)
+      break
     default:
       throw failure(`Unknown operation kind: ${(op as any).kind}`)
   }
 }
 
+/**
+ * A validation function plus the information about the tx that its context needs.
+ */
+export type TxValidation<T extends JSONObject> = {
+  validateFn: ValidateFn<T>
+  /** Logical key of the tx (the original key for re-emitted txs) */
+  txKey: TxTimestampKey
+  /** Logical timestamp of the tx (the original one for re-emitted txs) */
+  txTimestamp: TxTimestamp
+}
+
+/**
+ * Result of applying a tx immutably.
+ */
+export type ApplyTxResult<T> = {
+  /** The final state (if applied) or the original base (if rejected) */
+  state: T
+  /** Why the tx was rejected, or undefined if it was applied */
+  rejection: TxRejection | undefined
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Applies a single transaction to a base state immutably, reporting why it was rejected (if it was).
+ *
+ * Exceptions thrown while applying ops and exceptions thrown by the validator are reported
+ * as "error" rejections, failed "test" ops as "test" rejections and validator failures
+ * as "validation" rejections.
+ *
+ * @param base - The base state (never mutated)
+ * @param tx - The transaction to apply
+ * @param validation - Optional validation function and tx information for its context
+ */
+export function tryApplyTxImmutable<T extends JSONObject>(
+  base: T,
+  tx: Pick<TxRecord, "ops" | "meta">,
+  validation?: TxValidation<T>
+): ApplyTxResult<T> {
+  if (tx.ops.length === 0) return { state: base, rejection: undefined }
+
+  const ctx = createDraft(base)
+
+  const ops = tx.ops
+  for (let i = 0; i < ops.length; i++) {
+    try {
+      applyOpToDraft(ctx, ops[i])
+    } catch (error) {
+      const message = errorMessage(error)
+      return {
+        state: base,
+        rejection:
+          ops[i].kind === "test"
+            ? { kind: "test", message, opIndex: i }
+            : { kind: "error", message, error, opIndex: i },
+      }
+    }
+  }
+
+  if (validation) {
+    const { validateFn, txKey, txTimestamp } = validation
+    let result: ReturnType<ValidateFn<T>>
+    try {
+      result = validateFn(ctx.root, {
+        prevState: base,
+        ops,
+        txKey,
+        txTimestamp,
+        clientId: txTimestamp.clientId,
+        meta: tx.meta,
+      })
+    } catch (error) {
+      return { state: base, rejection: { kind: "error", message: errorMessage(error), error } }
+    }
+    if (result !== true) {
+      return {
+        state: base,
+        rejection: result === false ? { kind: "validation" } : { ...result, kind: "validation" },
+      }
+    }
+  }
+
+  return { state: ctx.root, rejection: undefined }
+}
+
 /**
  * Applies a single transaction to a base state immutably.
  *
@@ -278,29 +572,13 @@ export function applyOpToDraft<T extends JSONObject>(ctx: DraftContext<T>, op: O
  *
  * @param base - The base state (never mutated)
  * @param tx - The transaction to apply
- * @param validateFn - Optional validation function
+ * @param validation - Optional validation function and tx information for its context
  * @returns The final state (if valid) or the original base (if invalid or empty)
  */
 export function applyTxImmutable<T extends JSONObject>(
   base: T,
-  tx: Pick<TxRecord, "ops">,
-  validateFn?: ValidateFn<T>
+  tx: Pick<TxRecord, "ops" | "meta">,
+  validation?: TxValidation<T>
 ): T {
-  if (tx.ops.length === 0) return base
-
-  const ctx = createDraft(base)
-
-  try {
-    for (const op of tx.ops) {
-      applyOpToDraft(ctx, op)
-    }
-
-    if (validateFn && !validateFn(ctx.root)) {
-      return base
-    }
-
-    return ctx.root
-  } catch {
-    return base
-  }
+  return tryApplyTxImmutable(base, tx, validation).state
 }
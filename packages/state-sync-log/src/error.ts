@@ -1,3 +1,5 @@
+import type { TxRejection } from "./operations"
+
 export class StateSyncLogError extends Error {
   constructor(msg: string) {
     super(msg)
@@ -7,6 +9,22 @@ export class StateSyncLogError extends Error {
   }
 }
 
+/**
+ * Thrown by strict emits when the tx would be rejected against the current local state.
+ */
+export class TxRejectedError extends StateSyncLogError {
+  readonly rejection: TxRejection
+
+  constructor(rejection: TxRejection) {
+    super(
+      `Tx would be rejected (${rejection.kind})${"message" in rejection && rejection.message ? `: ${rejection.message}` : ""}`
+    )
+    this.rejection = rejection
+
+    Object.setPrototypeOf(this, TxRejectedError.prototype)
+  }
+}
+
 export function failure(message: string): never {
   throw new StateSyncLogError(message)
 }
@@ -0,0 +1,121 @@
+import { ClientId } from "./ClientId"
+import type { Path } from "./json"
+import { toPath } from "./jsonPointer"
+import { getOpTouchedPaths, type Op, type TxRejection } from "./operations"
+import { pathsIntersect } from "./paths"
+import type { StateCalculator } from "./StateCalculator"
+import type { TxMeta } from "./TxRecord"
+import type { TxTimestamp, TxTimestampKey } from "./txTimestamp"
+
+/**
+ * Outcome of a tx in the current state.
+ * - applied: the tx was applied.
+ * - rejected: the tx failed to apply or failed validation.
+ * - deduplicated: the tx is a re-emit of a logical tx that was already processed.
+ * - pending: the tx has not been processed yet.
+ */
+export type TxHistoryOutcome = "applied" | "rejected" | "deduplicated" | "pending"
+
+/**
+ * A tx in the log, as returned by `getHistory`.
+ */
+export type TxHistoryEntry = {
+  /**
+   * Physical key of the tx in the log.
+   */
+  txKey: TxTimestampKey
+  /**
+   * Parsed physical timestamp.
+   */
+  txTimestamp: TxTimestamp
+  /**
+   * Logical key of the tx (the original key for re-emitted txs, otherwise the same as txKey).
+   * This is the key returned by `emit`.
+   */
+  dedupTxKey: TxTimestampKey
+  /**
+   * Parsed logical timestamp.
+   */
+  dedupTxTimestamp: TxTimestamp
+  /**
+   * The client that authored the tx (which might differ from the one that re-emitted it).
+   */
+  clientId: ClientId
+  ops: readonly Op[]
+  meta: TxMeta | undefined
+  outcome: TxHistoryOutcome
+  /**
+   * Why the tx was rejected (only set when outcome is "rejected").
+   */
+  rejection: TxRejection | undefined
+}
+
+/**
+ * Filter for `getHistory`. All conditions must match.
+ */
+export type TxHistoryFilter = {
+  /**
+   * Only txs authored by this client.
+   */
+  clientId?: ClientId
+  /**
+   * Only txs authored at or after this wall clock time (ms).
+   */
+  fromWallClock?: number
+  /**
+   * Only txs authored at or before this wall clock time (ms).
+   */
+  toWallClock?: number
+  /**
+   * Only txs with at least one op that touches this path, its ancestors or its descendants.
+   * May also be a JSON Pointer.
+   */
+  path?: Path | string
+}
+
+function txTouchesPath(ops: readonly Op[], path: Path): boolean {
+  return ops.some((op) => getOpTouchedPaths(op).some((p) => pathsIntersect(p, path)))
+}
+
+/**
+ * Builds the history of the txs currently in the log, in log order.
+ */
+export function getTxHistory(calc: StateCalculator, filter?: TxHistoryFilter): TxHistoryEntry[] {
+  const history: TxHistoryEntry[] = []
+  // Dedup keys already seen (the first entry for a logical tx is the one that gets processed)
+  const seen = new Set<TxTimestampKey>()
+
+  for (const entry of calc.getSortedTxs()) {
+    const dedupKey = entry.dedupTxTimestampKey
+    const isDuplicate = seen.has(dedupKey)
+    seen.add(dedupKey)
+
+    const dedupTs = entry.dedupTxTimestamp
+    if (filter) {
+      if (filter.clientId !== undefined && dedupTs.clientId !== filter.clientId) continue
+      if (filter.fromWallClock !== undefined && dedupTs.wallClock < filter.fromWallClock) continue
+      if (filter.toWallClock !== undefined && dedupTs.wallClock > filter.toWallClock) continue
+    }
+
+    const tx = entry.txRecord
+    if (filter?.path !== undefined && !txTouchesPath(tx.ops, toPath(filter.path))) continue
+
+    const outcome: TxHistoryOutcome = isDuplicate
+      ? "deduplicated"
+      : (calc.getTxResult(dedupKey) ?? "pending")
+
+    history.push({
+      txKey: entry.txTimestampKey,
+      txTimestamp: entry.txTimestamp,
+      dedupTxKey: dedupKey,
+      dedupTxTimestamp: dedupTs,
+      clientId: dedupTs.clientId,
+      ops: tx.ops,
+      meta: tx.meta,
+      outcome,
+      rejection: outcome === "rejected" ? calc.getTxRejection(dedupKey) : undefined,
+    })
+  }
+
+  return history
+}
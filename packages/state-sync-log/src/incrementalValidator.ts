@@ -0,0 +1,144 @@
+import type { JSONObject, JSONValue, PathSegment } from "./json"
+import { parseJsonPointer } from "./jsonPointer"
+import type { ValidateFn, ValidationRejection, ValidationResult } from "./operations"
+import { isObject } from "./utils"
+
+/**
+ * A validator for the values (of type `Value`, JSON values by default) at the paths matching a
+ * pattern.
+ */
+export type SubtreeValidator<Value = JSONValue> = {
+  /**
+   * Path pattern of the validated values (a path or a JSON Pointer), where `"*"` segments match
+   * every key of an object or every index of an array, e.g. `["tasks", "*"]` or `"/tasks/*"`.
+   * Paths that do not exist are not validated.
+   */
+  path: readonly (string | number)[] | string
+  /**
+   * Validates a value. It MUST only depend on the value, since results are memoized by the
+   * identity of the value. Paths in rejections are relative to the value.
+   */
+  validate: (value: Value) => ValidationResult
+}
+
+/**
+ * Outcome of validating a subtree: true if valid, otherwise a rejection whose path is relative
+ * to the subtree root.
+ */
+type SubtreeResult = true | ValidationRejection
+
+const WILDCARD = "*"
+
+function toRejection(result: Exclude<ValidationResult, true>): ValidationRejection {
+  return result === false ? {} : result
+}
+
+function prependPath(segment: PathSegment, rejection: ValidationRejection): ValidationRejection {
+  return { ...rejection, path: [segment, ...(rejection.path ?? [])] }
+}
+
+/**
+ * Creates the checker of a single subtree validator, with one memo per pattern segment.
+ */
+function createSubtreeChecker(validator: SubtreeValidator): (state: JSONObject) => SubtreeResult {
+  const pattern: readonly (string | number)[] =
+    typeof validator.path === "string" ? parseJsonPointer(validator.path) : validator.path
+  // memos[i] caches the results of the values matched by pattern[0..i)
+  const memos = pattern.map(() => new WeakMap<object, SubtreeResult>()).concat(new WeakMap())
+
+  const check = (value: JSONValue, depth: number): SubtreeResult => {
+    const memo = memos[depth]
+    if (isObject(value)) {
+      const cached = memo.get(value)
+      if (cached !== undefined) return cached
+    }
+
+    let result: SubtreeResult = true
+    if (depth === pattern.length) {
+      const validation = validator.validate(value)
+      if (validation !== true) result = toRejection(validation)
+    } else if (isObject(value)) {
+      const segment = pattern[depth]
+      const record = value as Record<string | number, JSONValue>
+      const keys: (string | number)[] =
+        segment !== WILDCARD
+          ? [segment]
+          : Array.isArray(value)
+            ? value.map((_, i) => i)
+            : Object.keys(value)
+      for (const key of keys) {
+        if (!Object.hasOwn(record, key) || record[key] === undefined) continue
+        const childResult = check(record[key], depth + 1)
+        if (childResult !== true) {
+          result = prependPath(Array.isArray(value) ? Number(key) : key, childResult)
+          break
+        }
+      }
+    }
+
+    if (isObject(value)) {
+      memo.set(value, result)
+    }
+    return result
+  }
+
+  return (state) => check(state, 0)
+}
+
+/**
+ * Declares a subtree validator whose values are of type `Value`, so its `validate` function gets
+ * typed values. The type is not checked against the state, so it must match the values at the
+ * paths of the pattern.
+ *
+ * @example
+ * ```ts
+ * subtreeValidator<Task>({ path: ["tasks", "*"], validate: (task) => task.votes >= 0 })
+ * ```
+ *
+ * @param validator - The subtree validator.
+ * @returns The same validator, typed as a validator of JSON values.
+ */
+export function subtreeValidator<Value>(validator: SubtreeValidator<Value>): SubtreeValidator {
+  return validator as unknown as SubtreeValidator
+}
+
+/**
+ * Creates a validation function that runs validators on subtrees of the state and memoizes their
+ * results by object identity.
+ *
+ * Since applying a tx keeps the references of unchanged subtrees (structural sharing), only the
+ * subtrees changed since a previous validation are checked again, so the cost of validating a tx
+ * depends on what it changed rather than on the size of the state. This also speeds up full
+ * recalculations, which replay txs over shared subtrees.
+ *
+ * Validators run in order and the first failing value rejects the tx, with the path of the value
+ * prepended to the path of the rejection.
+ *
+ * Validators get JSON values, unless declared with `subtreeValidator<Value>()`.
+ *
+ * @example
+ * ```ts
+ * const validate = incrementalValidator<State>([
+ *   subtreeValidator<Task>({
+ *     path: "/tasks/*",
+ *     validate: (task) => task.title !== "" || { message: "Empty title" },
+ *   }),
+ *   { path: ["columns", "*"], validate: (column) => Array.isArray(column) && column.length <= 10 },
+ * ])
+ * ```
+ *
+ * @param validators - The subtree validators.
+ * @returns The validation function.
+ */
+export function incrementalValidator<State extends JSONObject>(
+  validators: readonly SubtreeValidator[]
+): ValidateFn<State> {
+  const checkers = validators.map(createSubtreeChecker)
+  return (state) => {
+    for (const check of checkers) {
+      const result = check(state)
+      if (result !== true) return result
+    }
+    return true
+  }
+}
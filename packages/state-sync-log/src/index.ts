@@ -1,9 +1,91 @@
+export type { ClientId } from "./ClientId"
 export type { CheckpointKey, CheckpointRecord } from "./checkpoints"
+export {
+  type CardinalityConstraint,
+  type Constraint,
+  constraintsValidator,
+  type ForeignKeyConstraint,
+  type UniqueConstraint,
+} from "./constraints"
 export * from "./createOps"
 export {
   createStateSyncLog,
+  type EmitOptions,
+  type EmittedTx,
+  type PreviewOptions,
   type StateSyncLogController,
   type StateSyncLogOptions,
+  type StateSyncLogSubscriber,
+  type TxPreview,
+  type UpdateOptions,
+  type UpdateResult,
 } from "./createStateSyncLog"
-export type { JSONObject, JSONValue, Path } from "./json"
-export { type ApplyOpsOptions, applyOps, type Op, type ValidateFn } from "./operations"
+export {
+  createUndoManager,
+  type UndoManager,
+  type UndoRedoResult,
+  type UndoRedoStatus,
+} from "./createUndoManager"
+export {
+  createValidationRules,
+  type ValidationRule,
+  type ValidationRules,
+} from "./createValidationRules"
+export { StateSyncLogError, TxRejectedError } from "./error"
+export type { TxHistoryEntry, TxHistoryFilter, TxHistoryOutcome } from "./history"
+export {
+  incrementalValidator,
+  type SubtreeValidator,
+  subtreeValidator,
+} from "./incrementalValidator"
+export type { ElementSelector, JSONObject, JSONValue, Path, PathSegment } from "./json"
+export {
+  type JsonPatchOperation,
+  jsonPatchToOps,
+  type OpsToJsonPatchOptions,
+  opsToJsonPatch,
+} from "./jsonPatch"
+export { parseJsonPointer, toJsonPointer, toJsonPointerOp } from "./jsonPointer"
+export {
+  type JsonSchema,
+  type JsonSchemaIssue,
+  type JsonSchemaObject,
+  type JsonSchemaType,
+  jsonSchemaValidator,
+  validateJsonSchema,
+} from "./jsonSchema"
+export {
+  type ArrayOpBuilder,
+  type OpBuilder,
+  type OpBuilderBase,
+  ops,
+  type TypedOp,
+  type UntypedOp,
+} from "./opBuilder"
+export {
+  type ApplyOpsOptions,
+  applyOps,
+  type JsonPointerOp,
+  type Op,
+  type OpInput,
+  type TxRejection,
+  type ValidateFn,
+  type ValidationContext,
+  type ValidationRejection,
+  type ValidationResult,
+} from "./operations"
+export {
+  type StandardSchemaV1,
+  type StandardSchemaV1Issue,
+  type StandardSchemaV1PathSegment,
+  type StandardSchemaV1Result,
+  standardSchemaValidator,
+} from "./standardSchema"
+export {
+  type StateMachine,
+  type StateTransition,
+  stateMachineValidator,
+} from "./stateMachines"
+export type { AppliedTx, TxMeta } from "./TxRecord"
+export type { SettledTxStatus, TxStatus } from "./txStatus"
+export type { TxTimestamp, TxTimestampKey } from "./txTimestamp"
@@ -0,0 +1,258 @@
+import { applyOpToDraft, applyTxImmutable, createDraft } from "./draft"
+import { failure } from "./error"
+import type { JSONObject, JSONRecord, JSONValue } from "./json"
+import { computeIncrement, matchesWhere, type Op } from "./operations"
+import { getValueAtPath } from "./paths"
+import { deepEqual, isObject, parseArrayIndex } from "./utils"
+
+/**
+ * Result of inverting a list of ops.
+ */
+export type InverseOpsResult = {
+  /**
+   * Ops that, applied to `stateAfter`, restore the original state.
+   */
+  inverseOps: Op[]
+  /**
+   * The state after applying the ops to the original state.
+   */
+  stateAfter: JSONObject
+}
+
+/**
+ * Computes the inverse of a single op against the state it is about to be applied to.
+ * The returned ops are in application order.
+ */
+function invertOp(state: JSONObject, op: Op): Op[] {
+  if (op.kind === "replace") {
+    return [{ kind: "replace", value: state }]
+  }
+
+  const container = getValueAtPath(state, op.path)
+
+  switch (op.kind) {
+    case "set":
+    case "delete": {
+      if (!isObject(container)) {
+        failure(`${op.kind} requires object or array container`)
+      }
+      const { path, key } = op
+
+      if (Array.isArray(container)) {
+        if (key === "length") {
+          const oldLength = container.length
+          if (op.kind === "set" && typeof op.value === "number" && op.value < oldLength) {
+            // Truncation: re-insert the removed tail
+            return [
+              {
+                kind: "splice",
+                path,
+                index: op.value,
+                deleteCount: 0,
+                inserts: container.slice(op.value),
+              },
+            ]
+          }
+          return [{ kind: "set", path, key: "length", value: oldLength }]
+        }
+
+        const index = typeof key === "number" ? key : parseArrayIndex(key)
+        if (index === null) {
+          failure(`Cannot ${op.kind} non-numeric property "${key}" on array`)
+        }
+        if (index >= container.length) {
+          // The array grows (or stays the same for deletes)
+          return op.kind === "set"
+            ? [{ kind: "set", path, key: "length", value: container.length }]
+            : []
+        }
+        return [{ kind: "set", path, key: index, value: container[index] }]
+      }
+
+      const record = container as Record<string, JSONValue>
+      if (!Object.hasOwn(record, key)) {
+        return op.kind === "set" ? [{ kind: "delete", path, key }] : []
+      }
+      return [{ kind: "set", path, key, value: record[key] }]
+    }
+
+    case "splice": {
+      if (!Array.isArray(container)) {
+        failure("splice requires array container")
+      }
+      const index = Math.min(op.index, container.length)
+      return [
+        {
+          kind: "splice",
+          path: op.path,
+          index,
+          deleteCount: op.inserts.length,
+          inserts: container.slice(index, index + op.deleteCount),
+        },
+      ]
+    }
+
+    case "addToSet": {
+      if (!Array.isArray(container)) {
+        failure("addToSet requires array container")
+      }
+      if (container.some((item) => deepEqual(item, op.value))) {
+        return []
+      }
+      return [{ kind: "deleteFromSet", path: op.path, value: op.value }]
+    }
+
+    case "deleteFromSet": {
+      if (!Array.isArray(container)) {
+        failure("deleteFromSet requires array container")
+      }
+      // Re-insert the removed items at their original indexes (ascending order)
+      const inverse: Op[] = []
+      for (let i = 0; i < container.length; i++) {
+        if (deepEqual(container[i], op.value)) {
+          inverse.push({
+            kind: "splice",
+            path: op.path,
+            index: i,
+            deleteCount: 0,
+            inserts: [container[i]],
+          })
+        }
+      }
+      return inverse
+    }
+
+    case "test":
+      return []
+
+    case "increment": {
+      if (!isObject(container)) {
+        failure("increment requires object or array container")
+      }
+      const { path, key } = op
+      const record = container as Record<string | number, JSONValue>
+      if (!Object.hasOwn(record, key)) {
+        return [{ kind: "delete", path, key }]
+      }
+      // Revert the actual (clamped) change, so the inverse still commutes with other increments
+      const oldValue = record[key]
+      const delta = computeIncrement(oldValue, op) - (oldValue as number)
+      return [{ kind: "increment", path, key, by: -delta }]
+    }
+
+    case "stringSplice": {
+      if (!isObject(container)) {
+        failure("stringSplice requires object or array container")
+      }
+      const current = (container as Record<string | number, JSONValue>)[op.key]
+      if (typeof current !== "string") {
+        failure("stringSplice requires a string")
+      }
+      const index = Math.min(op.index, current.length)
+      return [
+        {
+          kind: "stringSplice",
+          path: op.path,
+          key: op.key,
+          index,
+          deleteCount: op.insert.length,
+          insert: current.slice(index, index + op.deleteCount),
+        },
+      ]
+    }
+
+    case "updateWhere": {
+      if (!Array.isArray(container)) {
+        failure("updateWhere requires array container")
+      }
+      // Restore the changed fields of each matched element
+      const fields = [...Object.keys(op.set ?? {}), ...(op.delete ?? [])]
+      const inverse: Op[] = []
+      container.forEach((item, index) => {
+        if (!matchesWhere(item, op.where)) return
+        const path = [...op.path, index]
+        for (const field of new Set(fields)) {
+          inverse.push(
+            Object.hasOwn(item, field)
+              ? { kind: "set", path, key: field, value: item[field] }
+              : { kind: "delete", path, key: field }
+          )
+        }
+      })
+      return inverse
+    }
+
+    case "move":
+    case "copy": {
+      const { fromPath, fromKey, path, key } = op
+      const value = getValueAtPath(state, [...fromPath, fromKey])
+
+      // The target path is resolved after removing the source
+      let stateAfterRemoval = state
+      if (op.kind === "move") {
+        const removeOp: Op = Array.isArray(getValueAtPath(state, fromPath))
+          ? { kind: "splice", path: fromPath, index: Number(fromKey), deleteCount: 1, inserts: [] }
+          : { kind: "delete", path: fromPath, key: fromKey }
+        stateAfterRemoval = applyTxImmutable(state, { ops: [removeOp] })
+      }
+      const target = getValueAtPath(stateAfterRemoval, path)
+
+      if (Array.isArray(target)) {
+        const index = Math.min(Number(key), target.length)
+        return op.kind === "move"
+          ? [{ kind: "move", fromPath: path, fromKey: index, path: fromPath, key: fromKey }]
+          : [{ kind: "splice", path, index, deleteCount: 1, inserts: [] }]
+      }
+
+      if (!isObject(target) || !Object.hasOwn(target, key)) {
+        return op.kind === "move"
+          ? [{ kind: "move", fromPath: path, fromKey: key, path: fromPath, key: fromKey }]
+          : [{ kind: "delete", path, key }]
+      }
+
+      // The target value was overwritten: restore it, then put the moved value back
+      const restoreOp: Op = { kind: "set", path, key, value: (target as JSONRecord)[key] }
+      if (op.kind === "copy") {
+        return [restoreOp]
+      }
+      const reinsertOp: Op = Array.isArray(getValueAtPath(stateAfterRemoval, fromPath))
+        ? {
+            kind: "splice",
+            path: fromPath,
+            index: Number(fromKey),
+            deleteCount: 0,
+            inserts: [value],
+          }
+        : { kind: "set", path: fromPath, key: fromKey, value }
+      return [restoreOp, reinsertOp]
+    }
+
+    default:
+      throw failure(`Unknown operation kind: ${(op as any).kind}`)
+  }
+}
+
+/**
+ * Computes the ops that undo the given ops, given the state they are applied to.
+ * Throws if any of the ops cannot be applied to that state.
+ */
+export function computeInverseOps(state: JSONObject, ops: readonly Op[]): InverseOpsResult {
+  const inverseOpsPerOp: Op[][] = []
+
+  let current = state
+  for (const op of ops) {
+    inverseOpsPerOp.push(invertOp(current, op))
+    // Use a new draft per op, so values captured by the inverse ops are never mutated afterwards
+    const ctx = createDraft(current)
+    applyOpToDraft(ctx, op)
+    current = ctx.root
+  }
+
+  // Undo the last op first
+  const inverseOps: Op[] = []
+  for (let i = inverseOpsPerOp.length - 1; i >= 0; i--) {
+    inverseOps.push(...inverseOpsPerOp[i])
+  }
+
+  return { inverseOps, stateAfter: current }
+}
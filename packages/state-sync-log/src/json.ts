@@ -1,8 +1,20 @@
+/**
+ * A path segment that selects the first array element whose fields have the given values
+ * (e.g. `{ id: "t42" }`). It is resolved when the op is applied, so it keeps pointing to the same
+ * element even if concurrent txs moved it to another index.
+ */
+export type ElementSelector = { readonly [field: string]: string | number }
+
+/**
+ * A path segment: an object key, an array index or an array element selector.
+ */
+export type PathSegment = string | number | ElementSelector
+
 /**
  * A unique path to a value within the JSON document.
  * Resolution fails if any segment is missing or type mismatch occurs.
  */
-export type Path = readonly (string | number)[]
+export type Path = readonly PathSegment[]
 
 /**
  * A JSON primitive.
@@ -0,0 +1,358 @@
+import { applyOpToDraft, createDraft } from "./draft"
+import { failure } from "./error"
+import type { JSONObject, JSONValue, Path, PathSegment } from "./json"
+import { normalizeOp, parseJsonPointer, toJsonPointer } from "./jsonPointer"
+import type { Op, OpInput } from "./operations"
+import { getValueAtPath, isElementSelector } from "./paths"
+import { isObject, parseArrayIndex } from "./utils"
+
+/**
+ * An RFC 6902 JSON Patch operation.
+ *
+ * `x-op` is an extension that carries an op with no JSON Patch equivalent as it is
+ * (see `opsToJsonPatch`).
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: JSONValue }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: JSONValue }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: JSONValue }
+  | { op: "x-op"; path: ""; value: Op }
+
+/**
+ * Options for opsToJsonPatch.
+ */
+export interface OpsToJsonPatchOptions {
+  /**
+   * Whether ops with no JSON Patch equivalent (`addToSet`, `deleteFromSet`, `increment`,
+   * `stringSplice`, `updateWhere`, `test` ops checking existence, `set` ops of the array length
+   * and ops whose paths contain element selectors) are exported as `x-op` extension operations.
+   * If false (default), such ops throw.
+   */
+  extensions?: boolean
+  /**
+   * The state the ops apply to. If given, the ops are applied to it as they are converted (without
+   * mutating it), so array elements addressed with string keys are told apart from object members
+   * and `set` ops appending to arrays become `add` operations. Otherwise numeric keys are assumed
+   * to address existing array elements and string keys object members.
+   */
+  state?: JSONObject
+}
+
+/**
+ * Converts a path (plus an optional key) into a JSON Pointer.
+ * Returns null if the path contains element selectors.
+ */
+function toPointer(path: Path, key?: string | number): string | null {
+  const segments: PathSegment[] = key === undefined ? [...path] : [...path, key]
+  return segments.some(isElementSelector) ? null : toJsonPointer(segments)
+}
+
+/**
+ * Returns the array addressed by the path of an op, or null if it addresses an object. Without
+ * the state, numeric keys are assumed to address array elements.
+ */
+function getOpArray(
+  state: JSONObject | undefined,
+  path: Path,
+  key: string | number
+): readonly JSONValue[] | null {
+  if (!state) return typeof key === "number" ? [] : null
+  const container = getValueAtPath(state, path)
+  return Array.isArray(container) ? container : null
+}
+
+/**
+ * Converts a single op into JSON Patch operations, or returns null if it has no equivalent.
+ */
+function opToJsonPatch(op: Op, state: JSONObject | undefined): JsonPatchOperation[] | null {
+  switch (op.kind) {
+    case "set": {
+      if (op.key === "length") return null
+      const array = getOpArray(state, op.path, op.key)
+      if (array === null) {
+        const path = toPointer(op.path, op.key)
+        return path === null ? null : [{ op: "add", path, value: op.value }]
+      }
+
+      // Array elements are replaced, while "add" would insert
+      const index = typeof op.key === "number" ? op.key : parseArrayIndex(op.key)
+      if (index === null) return null
+      const path = toPointer(op.path, index)
+      if (path === null) return null
+      if (!state || index < array.length) return [{ op: "replace", path, value: op.value }]
+      // Setting past the end of the array leaves holes
+      return index === array.length ? [{ op: "add", path, value: op.value }] : null
+    }
+
+    case "delete": {
+      // Deleting array elements leaves holes, while "remove" would shift the next elements
+      if (getOpArray(state, op.path, op.key) !== null) return null
+      const path = toPointer(op.path, op.key)
+      return path === null ? null : [{ op: "remove", path }]
+    }
+
+    case "splice": {
+      const arrayPath = toPointer(op.path)
+      if (arrayPath === null) return null
+      // Splices are clamped to the array, while JSON Patch requires existing indexes
+      const array = state && getValueAtPath(state, op.path)
+      const length = Array.isArray(array) ? array.length : Number.POSITIVE_INFINITY
+      const index = Math.min(op.index, length)
+      const deleteCount = Math.min(op.deleteCount, length - index)
+      const patch: JsonPatchOperation[] = []
+      for (let i = 0; i < deleteCount; i++) {
+        patch.push({ op: "remove", path: `${arrayPath}/${index}` })
+      }
+      op.inserts.forEach((value, i) => {
+        patch.push({ op: "add", path: `${arrayPath}/${index + i}`, value })
+      })
+      return patch
+    }
+
+    case "move":
+    case "copy": {
+      const from = toPointer(op.fromPath, op.fromKey)
+      const path = toPointer(op.path, op.key)
+      return from === null || path === null ? null : [{ op: op.kind, from, path }]
+    }
+
+    case "test": {
+      if (!("value" in op)) return null
+      const path = toPointer(op.path, op.key)
+      return path === null ? null : [{ op: "test", path, value: op.value }]
+    }
+
+    case "replace":
+      return [{ op: "replace", path: "", value: op.value }]
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Converts ops into an RFC 6902 JSON Patch, e.g. to forward the ops received by subscribers to
+ * systems that speak JSON Patch.
+ *
+ * `set` ops on array elements become `replace` operations (or `add` operations when appending,
+ * which requires the `state` option) and `splice` ops become one `remove` operation per deleted
+ * element followed by one `add` operation per inserted element (their ranges must be within the
+ * array). `delete` ops on array elements have no equivalent, since they leave holes rather than
+ * shifting the next elements.
+ * Ops with no equivalent throw, unless the `extensions` option is enabled.
+ *
+ * @param ops - The ops to convert.
+ * @param options - Optional settings.
+ * @returns The JSON Patch operations.
+ */
+export function opsToJsonPatch(
+  ops: readonly OpInput[],
+  options?: OpsToJsonPatchOptions
+): JsonPatchOperation[] {
+  const ctx = options?.state && createDraft(options.state)
+  const patch: JsonPatchOperation[] = []
+  for (const input of ops) {
+    const op = normalizeOp(input)
+    const converted = opToJsonPatch(op, ctx?.root)
+    if (ctx && op.kind !== "test") {
+      applyOpToDraft(ctx, op)
+    }
+    if (converted) {
+      patch.push(...converted)
+    } else if (options?.extensions) {
+      patch.push({ op: "x-op", path: "", value: op })
+    } else {
+      failure(
+        `"${op.kind}" op has no JSON Patch equivalent (enable the "extensions" option to export it as an "x-op" operation)`
+      )
+    }
+  }
+  return patch
+}
+
+/**
+ * Parses a JSON Pointer array index ("-" is only allowed when `allowEnd` is set and stands for
+ * the end of the array).
+ */
+function parsePointerIndex(
+  segment: string,
+  array: readonly JSONValue[],
+  pointer: string,
+  allowEnd: boolean
+): number {
+  if (allowEnd && segment === "-") return array.length
+  if (!/^(0|[1-9][0-9]*)$/.test(segment)) {
+    failure(`Invalid array index "${segment}" in JSON Pointer "${pointer}"`)
+  }
+  return Number(segment)
+}
+
+/**
+ * A location referenced by a JSON Pointer: its parent container and its key within it.
+ */
+type PointerTarget = {
+  path: Path
+  container: JSONObject
+  key: string
+}
+
+/**
+ * Resolves the parent container of a (non-root) JSON Pointer in the state.
+ * Array indexes in the path are converted into numbers.
+ */
+function resolvePointerTarget(state: JSONObject, pointer: string): PointerTarget {
+  const segments = parseJsonPointer(pointer)
+  if (segments.length === 0) {
+    failure("JSON Pointer must not be the root")
+  }
+
+  const path: PathSegment[] = []
+  let current: JSONValue = state
+  for (let i = 0; i < segments.length - 1; i++) {
+    if (!isObject(current)) {
+      failure(`JSON Pointer "${pointer}" does not exist`)
+    }
+    const segment: string | number = Array.isArray(current)
+      ? parsePointerIndex(segments[i], current, pointer, false)
+      : segments[i]
+    if (!Object.hasOwn(current, segment)) {
+      failure(`JSON Pointer "${pointer}" does not exist`)
+    }
+    path.push(segment)
+    current = (current as Record<string | number, JSONValue>)[segment]
+  }
+  if (!isObject(current)) {
+    failure(`JSON Pointer "${pointer}" does not exist`)
+  }
+  return { path, container: current, key: segments[segments.length - 1] }
+}
+
+/**
+ * Returns the key of an existing value referenced by a JSON Pointer (array indexes as numbers).
+ */
+function getExistingKey(target: PointerTarget, pointer: string): string | number {
+  const { container, key } = target
+  if (Array.isArray(container)) {
+    const index = parsePointerIndex(key, container, pointer, false)
+    if (index >= container.length) {
+      failure(`JSON Pointer "${pointer}" does not exist`)
+    }
+    return index
+  }
+  if (!Object.hasOwn(container, key)) {
+    failure(`JSON Pointer "${pointer}" does not exist`)
+  }
+  return key
+}
+
+function toRootReplace(value: JSONValue): Op {
+  if (!isObject(value)) {
+    failure("JSON Patch can only replace the root with an object or array")
+  }
+  return { kind: "replace", value: value as JSONObject }
+}
+
+/**
+ * Converts a single JSON Patch operation into an op, given the state it applies to.
+ */
+function jsonPatchOperationToOp(state: JSONObject, operation: JsonPatchOperation): Op {
+  switch (operation.op) {
+    case "add": {
+      if (operation.path === "") return toRootReplace(operation.value)
+      const target = resolvePointerTarget(state, operation.path)
+      if (Array.isArray(target.container)) {
+        const index = parsePointerIndex(target.key, target.container, operation.path, true)
+        if (index > target.container.length) {
+          failure(`Index ${index} out of bounds in JSON Pointer "${operation.path}"`)
+        }
+        return {
+          kind: "splice",
+          path: target.path,
+          index,
+          deleteCount: 0,
+          inserts: [operation.value],
+        }
+      }
+      return { kind: "set", path: target.path, key: target.key, value: operation.value }
+    }
+
+    case "remove": {
+      const target = resolvePointerTarget(state, operation.path)
+      const key = getExistingKey(target, operation.path)
+      return typeof key === "number"
+        ? { kind: "splice", path: target.path, index: key, deleteCount: 1, inserts: [] }
+        : { kind: "delete", path: target.path, key }
+    }
+
+    case "replace": {
+      if (operation.path === "") return toRootReplace(operation.value)
+      const target = resolvePointerTarget(state, operation.path)
+      const key = getExistingKey(target, operation.path)
+      return { kind: "set", path: target.path, key, value: operation.value }
+    }
+
+    case "move":
+    case "copy": {
+      const source = resolvePointerTarget(state, operation.from)
+      const fromKey = getExistingKey(source, operation.from)
+      const target = resolvePointerTarget(state, operation.path)
+      let key: string | number = target.key
+      if (Array.isArray(target.container)) {
+        key = parsePointerIndex(target.key, target.container, operation.path, true)
+        // The target index is resolved after removing the source
+        if (
+          key === target.container.length &&
+          operation.op === "move" &&
+          source.container === target.container
+        ) {
+          key--
+        }
+      }
+      return { kind: operation.op, fromPath: source.path, fromKey, path: target.path, key }
+    }
+
+    case "test": {
+      const target = resolvePointerTarget(state, operation.path)
+      const key = Array.isArray(target.container)
+        ? parsePointerIndex(target.key, target.container, operation.path, false)
+        : target.key
+      return { kind: "test", path: target.path, key, value: operation.value }
+    }
+
+    case "x-op":
+      return operation.value
+
+    default:
+      throw failure(`Unknown JSON Patch operation: ${(operation as any).op}`)
+  }
+}
+
+/**
+ * Converts an RFC 6902 JSON Patch into ops that can be emitted, e.g. to feed changes received
+ * from REST services to `emit`.
+ *
+ * The state the patch applies to is required, since JSON Pointers do not tell array indexes
+ * apart from object keys. The patch is applied to it as it is converted (without mutating it), so
+ * operations referencing locations that do not exist throw (`test` operations are not checked,
+ * they become `test` ops).
+ * `x-op` extension operations (see `opsToJsonPatch`) are converted back into their ops.
+ *
+ * @param patch - The JSON Patch operations.
+ * @param state - The state the patch applies to.
+ * @returns The ops.
+ */
+export function jsonPatchToOps(patch: readonly JsonPatchOperation[], state: JSONObject): Op[] {
+  const ctx = createDraft(state)
+  const ops: Op[] = []
+  for (const operation of patch) {
+    const op = jsonPatchOperationToOp(ctx.root, operation)
+    if (op.kind !== "test") {
+      applyOpToDraft(ctx, op)
+    }
+    ops.push(op)
+  }
+  return ops
+}
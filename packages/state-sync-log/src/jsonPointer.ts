@@ -0,0 +1,72 @@
+import { failure } from "./error"
+import type { Path } from "./json"
+import type { JsonPointerOp, Op, OpInput } from "./operations"
+import { describeSegment, isElementSelector } from "./paths"
+
+/**
+ * Converts a path into an RFC 6901 JSON Pointer (e.g. `["tasks", 3, "a/b"]` into
+ * `"/tasks/3/a~1b"`).
+ * Throws if the path contains element selectors, since pointers cannot express them.
+ */
+export function toJsonPointer(path: Path): string {
+  let pointer = ""
+  for (const segment of path) {
+    if (isElementSelector(segment)) {
+      failure(
+        `Path segment ${describeSegment(segment)} is an element selector and cannot be converted into a JSON Pointer`
+      )
+    }
+    pointer += `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`
+  }
+  return pointer
+}
+
+/**
+ * Parses an RFC 6901 JSON Pointer into a path (e.g. `"/tasks/3/a~1b"` into
+ * `["tasks", "3", "a/b"]`).
+ * All segments are strings; numeric strings address array elements when the path is resolved.
+ * Throws if the pointer is not valid.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === "") return []
+  if (!pointer.startsWith("/")) {
+    failure(`Invalid JSON Pointer "${pointer}"`)
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+/**
+ * Returns the path itself, or the parsed path if it is a JSON Pointer.
+ */
+export function toPath(path: Path | string): Path {
+  return typeof path === "string" ? parseJsonPointer(path) : path
+}
+
+/**
+ * Returns the op with its JSON Pointer paths (if any) parsed into paths.
+ */
+export function normalizeOp(op: OpInput): Op {
+  if (op.kind === "replace") return op
+  if (op.kind === "move" || op.kind === "copy") {
+    if (typeof op.path !== "string" && typeof op.fromPath !== "string") return op as Op
+    return { ...op, fromPath: toPath(op.fromPath), path: toPath(op.path) }
+  }
+  if (typeof op.path !== "string") return op as Op
+  return { ...op, path: parseJsonPointer(op.path) } as Op
+}
+
+/**
+ * Returns the op with its paths converted into JSON Pointers, e.g. to store the ops received by
+ * subscribers where paths are kept as pointers.
+ * Throws if a path contains element selectors.
+ */
+export function toJsonPointerOp(op: Op): JsonPointerOp {
+  if (op.kind === "replace") return op
+  if (op.kind === "move" || op.kind === "copy") {
+    return { ...op, fromPath: toJsonPointer(op.fromPath), path: toJsonPointer(op.path) }
+  }
+  return { ...op, path: toJsonPointer(op.path) }
+}
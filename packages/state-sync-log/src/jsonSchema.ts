@@ -0,0 +1,387 @@
+import { failure } from "./error"
+import type { JSONObject, JSONValue, Path, PathSegment } from "./json"
+import { parseJsonPointer } from "./jsonPointer"
+import type { ValidateFn } from "./operations"
+import { deepEqual, isObject } from "./utils"
+
+/**
+ * A JSON Schema type name.
+ */
+export type JsonSchemaType =
+  | "null"
+  | "boolean"
+  | "number"
+  | "integer"
+  | "string"
+  | "array"
+  | "object"
+
+/**
+ * A JSON Schema (the subset understood by the built-in validator, see `validateJsonSchema`).
+ * `true` accepts any value and `false` rejects every value.
+ */
+export type JsonSchema = boolean | JsonSchemaObject
+
+/**
+ * A JSON Schema object.
+ * Keywords not listed here (e.g. `title`, `description` or `format`) are ignored.
+ */
+export interface JsonSchemaObject {
+  readonly $ref?: string
+  readonly $defs?: { readonly [name: string]: JsonSchema }
+  readonly definitions?: { readonly [name: string]: JsonSchema }
+
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[]
+  readonly enum?: readonly JSONValue[]
+  readonly const?: JSONValue
+
+  readonly allOf?: readonly JsonSchema[]
+  readonly anyOf?: readonly JsonSchema[]
+  readonly oneOf?: readonly JsonSchema[]
+  readonly not?: JsonSchema
+
+  readonly minimum?: number
+  readonly maximum?: number
+  readonly exclusiveMinimum?: number
+  readonly exclusiveMaximum?: number
+  readonly multipleOf?: number
+
+  readonly minLength?: number
+  readonly maxLength?: number
+  readonly pattern?: string
+
+  readonly items?: JsonSchema
+  readonly prefixItems?: readonly JsonSchema[]
+  readonly minItems?: number
+  readonly maxItems?: number
+  readonly uniqueItems?: boolean
+
+  readonly properties?: { readonly [key: string]: JsonSchema }
+  readonly patternProperties?: { readonly [pattern: string]: JsonSchema }
+  readonly additionalProperties?: JsonSchema
+  readonly propertyNames?: JsonSchema
+  readonly required?: readonly string[]
+  readonly minProperties?: number
+  readonly maxProperties?: number
+
+  readonly [keyword: string]: unknown
+}
+
+/**
+ * A value that does not match a JSON Schema.
+ */
+export interface JsonSchemaIssue {
+  /**
+   * The schema keyword that failed (e.g. "type" or "required").
+   */
+  readonly keyword: string
+  /**
+   * Human readable explanation.
+   */
+  readonly message: string
+  /**
+   * Path to the offending value (array indexes are numbers).
+   */
+  readonly path: Path
+}
+
+type SchemaContext = {
+  readonly root: JsonSchema
+  readonly patterns: Map<string, RegExp>
+}
+
+function getPattern(ctx: SchemaContext, pattern: string): RegExp {
+  let regExp = ctx.patterns.get(pattern)
+  if (!regExp) {
+    regExp = new RegExp(pattern, "u")
+    ctx.patterns.set(pattern, regExp)
+  }
+  return regExp
+}
+
+/**
+ * Resolves a local `$ref` ("#" or "#/json/pointer") against the root schema.
+ */
+function resolveRef(ctx: SchemaContext, ref: string): JsonSchema {
+  if (!ref.startsWith("#")) {
+    failure(
+      `Unsupported JSON Schema $ref "${ref}" (only local refs starting with "#" are supported)`
+    )
+  }
+  let current: unknown = ctx.root
+  for (const segment of parseJsonPointer(decodeURIComponent(ref.slice(1)))) {
+    if (!isObject(current) || !Object.hasOwn(current, segment)) {
+      failure(`JSON Schema $ref "${ref}" does not exist`)
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  if (typeof current !== "boolean" && (!isObject(current) || Array.isArray(current))) {
+    failure(`JSON Schema $ref "${ref}" is not a schema`)
+  }
+  return current as JsonSchema
+}
+
+/**
+ * Whether a number is a multiple of another, tolerating floating point errors (e.g. 0.3 is not
+ * exactly 3 times 0.1).
+ */
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9
+}
+
+function matchesType(value: JSONValue, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "null":
+      return value === null
+    case "boolean":
+      return typeof value === "boolean"
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+    case "integer":
+      return Number.isInteger(value)
+    case "string":
+      return typeof value === "string"
+    case "array":
+      return Array.isArray(value)
+    case "object":
+      return isObject(value) && !Array.isArray(value)
+    default:
+      return false
+  }
+}
+
+function describeValue(value: JSONValue): string {
+  return JSON.stringify(value) ?? String(value)
+}
+
+function isValid(ctx: SchemaContext, schema: JsonSchema, value: JSONValue): boolean {
+  const issues: JsonSchemaIssue[] = []
+  validateValue(ctx, schema, value, [], issues)
+  return issues.length === 0
+}
+
+/**
+ * Validates a value against a schema, pushing the issues found.
+ */
+function validateValue(
+  ctx: SchemaContext,
+  schema: JsonSchema,
+  value: JSONValue,
+  path: PathSegment[],
+  issues: JsonSchemaIssue[]
+): void {
+  const report = (keyword: string, message: string, at: Path = path) => {
+    issues.push({ keyword, message, path: at })
+  }
+
+  if (schema === true) return
+  if (schema === false) {
+    report("false", "must not exist")
+    return
+  }
+
+  if (schema.$ref !== undefined) {
+    validateValue(ctx, resolveRef(ctx, schema.$ref), value, path, issues)
+  }
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] =
+      typeof schema.type === "string" ? [schema.type] : schema.type
+    if (!types.some((type) => matchesType(value, type))) {
+      report("type", `must be ${types.join(" or ")}`)
+      // Other keywords would only report the same problem
+      return
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+    report("enum", "must be equal to one of the allowed values")
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    report("const", `must be equal to ${describeValue(schema.const)}`)
+  }
+
+  // Combinators
+  schema.allOf?.forEach((subschema) => {
+    validateValue(ctx, subschema, value, path, issues)
+  })
+  if (schema.anyOf !== undefined && !schema.anyOf.some((s) => isValid(ctx, s, value))) {
+    report("anyOf", "must match a schema in anyOf")
+  }
+  if (schema.oneOf !== undefined) {
+    const matches = schema.oneOf.filter((s) => isValid(ctx, s, value)).length
+    if (matches !== 1) {
+      report("oneOf", `must match exactly one schema in oneOf (matches ${matches})`)
+    }
+  }
+  if (schema.not !== undefined && isValid(ctx, schema.not, value)) {
+    report("not", "must not be valid against the schema in not")
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report("minimum", `must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report("maximum", `must be <= ${schema.maximum}`)
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      report("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`)
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      report("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`)
+    }
+    if (schema.multipleOf !== undefined && !isMultipleOf(value, schema.multipleOf)) {
+      report("multipleOf", `must be a multiple of ${schema.multipleOf}`)
+    }
+  } else if (typeof value === "string") {
+    // Lengths are measured in code points
+    if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+      const length = [...value].length
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        report("minLength", `must not have fewer than ${schema.minLength} characters`)
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        report("maxLength", `must not have more than ${schema.maxLength} characters`)
+      }
+    }
+    if (schema.pattern !== undefined && !getPattern(ctx, schema.pattern).test(value)) {
+      report("pattern", `must match pattern "${schema.pattern}"`)
+    }
+  } else if (Array.isArray(value)) {
+    validateArray(ctx, schema, value, path, issues, report)
+  } else if (isObject(value)) {
+    validateObject(ctx, schema, value, path, issues, report)
+  }
+}
+
+function validateArray(
+  ctx: SchemaContext,
+  schema: JsonSchemaObject,
+  value: readonly JSONValue[],
+  path: PathSegment[],
+  issues: JsonSchemaIssue[],
+  report: (keyword: string, message: string) => void
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    report("minItems", `must not have fewer than ${schema.minItems} items`)
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    report("maxItems", `must not have more than ${schema.maxItems} items`)
+  }
+  if (schema.uniqueItems) {
+    for (let i = 1; i < value.length; i++) {
+      const duplicate = value.findIndex((item, j) => j < i && deepEqual(item, value[i]))
+      if (duplicate >= 0) {
+        report("uniqueItems", `must not have duplicate items (items ${duplicate} and ${i})`)
+        break
+      }
+    }
+  }
+
+  const prefixItems = schema.prefixItems ?? []
+  value.forEach((item, i) => {
+    const itemSchema = i < prefixItems.length ? prefixItems[i] : schema.items
+    if (itemSchema !== undefined) {
+      validateValue(ctx, itemSchema, item, [...path, i], issues)
+    }
+  })
+}
+
+function validateObject(
+  ctx: SchemaContext,
+  schema: JsonSchemaObject,
+  value: JSONObject,
+  path: PathSegment[],
+  issues: JsonSchemaIssue[],
+  report: (keyword: string, message: string, at?: Path) => void
+): void {
+  // Keys holding undefined are not part of the JSON value
+  const record = value as Record<string, JSONValue>
+  const keys = Object.keys(record).filter((key) => record[key] !== undefined)
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    report("minProperties", `must not have fewer than ${schema.minProperties} properties`)
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    report("maxProperties", `must not have more than ${schema.maxProperties} properties`)
+  }
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(record, key) || record[key] === undefined) {
+      report("required", `must have required property "${key}"`)
+    }
+  }
+
+  const patternProperties = Object.entries(schema.patternProperties ?? {})
+  for (const key of keys) {
+    const keyPath = [...path, key]
+    if (schema.propertyNames !== undefined && !isValid(ctx, schema.propertyNames, key)) {
+      report("propertyNames", `property name "${key}" is invalid`, keyPath)
+    }
+
+    let matched = false
+    if (schema.properties !== undefined && Object.hasOwn(schema.properties, key)) {
+      matched = true
+      validateValue(ctx, schema.properties[key], record[key], keyPath, issues)
+    }
+    for (const [pattern, propertySchema] of patternProperties) {
+      if (getPattern(ctx, pattern).test(key)) {
+        matched = true
+        validateValue(ctx, propertySchema, record[key], keyPath, issues)
+      }
+    }
+    if (!matched && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        report("additionalProperties", `must not have additional property "${key}"`, keyPath)
+      } else {
+        validateValue(ctx, schema.additionalProperties, record[key], keyPath, issues)
+      }
+    }
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema with the built-in validator, returning every issue found
+ * (an empty array if the value is valid).
+ *
+ * The validator is small and deterministic (no network access, no code generation) and supports
+ * these keywords: `type`, `enum`, `const`, `allOf`, `anyOf`, `oneOf`, `not`, `minimum`,
+ * `maximum`, `exclusiveMinimum`, `exclusiveMaximum` (as numbers), `multipleOf`, `minLength`,
+ * `maxLength`, `pattern`, `items`, `prefixItems`, `minItems`, `maxItems`, `uniqueItems`,
+ * `properties`, `patternProperties`, `additionalProperties`, `propertyNames`, `required`,
+ * `minProperties`, `maxProperties` and local `$ref`s (e.g. "#/$defs/task").
+ * Other keywords are ignored.
+ *
+ * @param schema - The JSON Schema.
+ * @param value - The value to validate.
+ * @returns The issues found.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: JSONValue): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = []
+  validateValue({ root: schema, patterns: new Map() }, schema, value, [], issues)
+  return issues
+}
+
+/**
+ * Creates a validation function that checks the state against a JSON Schema with the built-in
+ * validator (see `validateJsonSchema`).
+ *
+ * Invalid states are rejected with the first issue found: its keyword as `ruleId`, its `message`
+ * and its `path`.
+ *
+ * @param schema - The JSON Schema the state must match.
+ * @returns The validation function.
+ */
+export function jsonSchemaValidator<State extends JSONObject>(
+  schema: JsonSchema
+): ValidateFn<State> {
+  // Compiled patterns are kept between validations
+  const ctx: SchemaContext = { root: schema, patterns: new Map() }
+  return (state) => {
+    const issues: JsonSchemaIssue[] = []
+    validateValue(ctx, schema, state, [], issues)
+    if (issues.length === 0) return true
+    const [{ keyword, message, path }] = issues
+    return { ruleId: keyword, message, path }
+  }
+}
@@ -0,0 +1,236 @@
+import type { JSONObject, JSONRecord, JSONValue, Path, PathSegment } from "./json"
+import type { Op } from "./operations"
+
+declare const stateBrand: unique symbol
+declare const valueBrand: unique symbol
+
+/**
+ * An op built with `ops<State>()`, whose paths, keys and values were checked against `State`
+ * at compile time. It is a plain `Op` at runtime.
+ */
+export type TypedOp<State> = Op & { readonly [stateBrand]: State }
+
+/**
+ * An op that was not built with the typed op builder (so typed ops built for another `State`
+ * are not accepted as untyped ones).
+ */
+export type UntypedOp<O> = O & { readonly [stateBrand]?: never }
+
+type ElementOf<T> = T extends readonly (infer E)[] ? E : never
+
+/**
+ * An element selector for the fields of an array element that hold strings or numbers.
+ */
+type SelectorOf<E> = {
+  [K in keyof E as NonNullable<E[K]> extends string | number ? K : never]?: NonNullable<E[K]>
+}
+
+/**
+ * Keys of the values inside a container (indexes for arrays).
+ */
+type KeyOf<T> = T extends readonly unknown[] ? number : T extends object ? keyof T & string : never
+
+/**
+ * Keys of the values inside a container whose (non-nullable) type is `V`.
+ */
+type KeyWithValue<T, V> = T extends readonly (infer E)[]
+  ? NonNullable<E> extends V
+    ? number
+    : never
+  : T extends object
+    ? { [K in keyof T]-?: NonNullable<T[K]> extends V ? K : never }[keyof T] & string
+    : never
+
+/**
+ * Path segments that can be used to traverse a container (arrays also accept element selectors).
+ */
+type PathKeyOf<T> = T extends readonly (infer E)[] ? number | SelectorOf<E> : KeyOf<T>
+
+/**
+ * The type of the value at a key of a container.
+ */
+type ValueAt<T, K> = T extends readonly (infer E)[] ? E : K extends keyof T ? T[K] : never
+
+/**
+ * The type of the container at a path segment of a container.
+ */
+type ChildAt<T, K> = NonNullable<ValueAt<T, K>>
+
+/**
+ * Ops that can be built for any container.
+ */
+export interface OpBuilderBase<State, T> {
+  /** @internal Type of the container (compile time only). */
+  readonly [valueBrand]?: T
+
+  /**
+   * The path of the container.
+   */
+  readonly path: Path
+
+  /**
+   * Returns a builder for the container at the given path segments, relative to this one.
+   */
+  at<K1 extends PathKeyOf<T>>(k1: K1): OpBuilder<State, ChildAt<T, K1>>
+  at<K1 extends PathKeyOf<T>, K2 extends PathKeyOf<ChildAt<T, K1>>>(
+    k1: K1,
+    k2: K2
+  ): OpBuilder<State, ChildAt<ChildAt<T, K1>, K2>>
+  at<
+    K1 extends PathKeyOf<T>,
+    K2 extends PathKeyOf<ChildAt<T, K1>>,
+    K3 extends PathKeyOf<ChildAt<ChildAt<T, K1>, K2>>,
+  >(k1: K1, k2: K2, k3: K3): OpBuilder<State, ChildAt<ChildAt<ChildAt<T, K1>, K2>, K3>>
+  at<
+    K1 extends PathKeyOf<T>,
+    K2 extends PathKeyOf<ChildAt<T, K1>>,
+    K3 extends PathKeyOf<ChildAt<ChildAt<T, K1>, K2>>,
+    K4 extends PathKeyOf<ChildAt<ChildAt<ChildAt<T, K1>, K2>, K3>>,
+  >(
+    k1: K1,
+    k2: K2,
+    k3: K3,
+    k4: K4
+  ): OpBuilder<State, ChildAt<ChildAt<ChildAt<ChildAt<T, K1>, K2>, K3>, K4>>
+
+  /**
+   * Builds a `set` op.
+   */
+  set<K extends KeyOf<T>>(key: K, value: ValueAt<T, K>): TypedOp<State>
+
+  /**
+   * Builds a `delete` op.
+   */
+  delete(key: KeyOf<T>): TypedOp<State>
+
+  /**
+   * Builds an `increment` op.
+   */
+  increment(
+    key: KeyWithValue<T, number>,
+    by: number,
+    options?: { min?: number; max?: number }
+  ): TypedOp<State>
+
+  /**
+   * Builds a `stringSplice` op.
+   */
+  stringSplice(
+    key: KeyWithValue<T, string>,
+    index: number,
+    deleteCount: number,
+    insert: string
+  ): TypedOp<State>
+
+  /**
+   * Builds a `test` op that checks the value at the key.
+   */
+  test<K extends KeyOf<T>>(key: K, value: ValueAt<T, K>): TypedOp<State>
+
+  /**
+   * Builds a `test` op that checks whether the key exists.
+   */
+  testExists(key: KeyOf<T>, exists: boolean): TypedOp<State>
+
+  /**
+   * Builds a `move` op from a key of this container to a key of another one.
+   */
+  move<U>(key: KeyOf<T>, to: OpBuilderBase<State, U>, toKey: KeyOf<U>): TypedOp<State>
+
+  /**
+   * Builds a `copy` op from a key of this container to a key of another one.
+   */
+  copy<U>(key: KeyOf<T>, to: OpBuilderBase<State, U>, toKey: KeyOf<U>): TypedOp<State>
+}
+
+/**
+ * Ops that can only be built for arrays.
+ */
+export interface ArrayOpBuilder<State, T extends readonly unknown[]>
+  extends OpBuilderBase<State, T> {
+  /**
+   * Builds a `splice` op.
+   */
+  splice(index: number, deleteCount: number, ...inserts: ElementOf<T>[]): TypedOp<State>
+
+  /**
+   * Builds an `addToSet` op.
+   */
+  addToSet(value: ElementOf<T>): TypedOp<State>
+
+  /**
+   * Builds a `deleteFromSet` op.
+   */
+  deleteFromSet(value: ElementOf<T>): TypedOp<State>
+
+  /**
+   * Builds an `updateWhere` op.
+   */
+  updateWhere(update: {
+    where: Partial<ElementOf<T>>
+    set?: Partial<ElementOf<T>>
+    delete?: (keyof ElementOf<T> & string)[]
+  }): TypedOp<State>
+}
+
+/**
+ * A typed op builder for the container of type `T` inside `State`.
+ */
+export type OpBuilder<State, T> = T extends readonly unknown[]
+  ? ArrayOpBuilder<State, T>
+  : OpBuilderBase<State, T>
+
+/**
+ * Creates the (untyped) builder for the container at the given path.
+ */
+function createOpBuilder(path: Path): unknown {
+  const typed = (op: Op) => op as TypedOp<unknown>
+  return {
+    path,
+    at: (...segments: PathSegment[]) => createOpBuilder([...path, ...segments]),
+    set: (key: string | number, value: unknown) =>
+      typed({ kind: "set", path, key, value: value as JSONValue }),
+    delete: (key: string | number) => typed({ kind: "delete", path, key }),
+    increment: (key: string | number, by: number, options?: { min?: number; max?: number }) =>
+      typed({ kind: "increment", path, key, by, ...options }),
+    stringSplice: (key: string | number, index: number, deleteCount: number, insert: string) =>
+      typed({ kind: "stringSplice", path, key, index, deleteCount, insert }),
+    test: (key: string | number, value: unknown) =>
+      typed({ kind: "test", path, key, value: value as JSONValue }),
+    testExists: (key: string | number, exists: boolean) =>
+      typed({ kind: "test", path, key, exists }),
+    move: (key: string | number, to: { path: Path }, toKey: string | number) =>
+      typed({ kind: "move", fromPath: path, fromKey: key, path: to.path, key: toKey }),
+    copy: (key: string | number, to: { path: Path }, toKey: string | number) =>
+      typed({ kind: "copy", fromPath: path, fromKey: key, path: to.path, key: toKey }),
+    splice: (index: number, deleteCount: number, ...inserts: unknown[]) =>
+      typed({ kind: "splice", path, index, deleteCount, inserts: inserts as JSONValue[] }),
+    addToSet: (value: unknown) => typed({ kind: "addToSet", path, value: value as JSONValue }),
+    deleteFromSet: (value: unknown) =>
+      typed({ kind: "deleteFromSet", path, value: value as JSONValue }),
+    updateWhere: (update: { where: unknown; set?: unknown; delete?: string[] }) =>
+      typed({
+        kind: "updateWhere",
+        path,
+        where: update.where as JSONRecord,
+        ...(update.set !== undefined && { set: update.set as JSONRecord }),
+        ...(update.delete !== undefined && { delete: update.delete }),
+      }),
+  }
+}
+
+/**
+ * Returns a typed op builder for the root of `State`.
+ * The paths, keys and values of the built ops are checked against `State` at compile time, so a
+ * typo in a path no longer compiles (instead of the tx being rejected at apply time).
+ * The built ops are plain `Op` objects.
+ *
+ * @example
+ * ```ts
+ * const $ = ops<State>()
+ * log.emit([$.at("tasks", 0).set("status", "doing")])
+ * ```
+ */
+export function ops<State extends JSONObject>(): OpBuilder<State, State> {
+  return createOpBuilder([]) as OpBuilder<State, State>
+}
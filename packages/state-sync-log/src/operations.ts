@@ -1,23 +1,137 @@
+import type { ClientId } from "./ClientId"
 import { failure } from "./error"
-import { JSONObject, JSONValue, Path } from "./json"
+import { JSONObject, JSONRecord, JSONValue, Path } from "./json"
+import { normalizeOp } from "./jsonPointer"
+import {
+  describeSegment,
+  findSelectedIndex,
+  getValueAtPath,
+  isElementSelector,
+  isPathPrefix,
+  toIndexPath,
+} from "./paths"
+import type { TxMeta } from "./TxRecord"
+import type { TxTimestamp, TxTimestampKey } from "./txTimestamp"
 import { deepClone, deepEqual, isObject, parseArrayIndex } from "./utils"
 
+/**
+ * Supported operations, generic over the type of their paths.
+ */
+type OpWithPaths<P> =
+  | { kind: "set"; path: P; key: string | number; value: JSONValue }
+  | { kind: "delete"; path: P; key: string | number }
+  | { kind: "splice"; path: P; index: number; deleteCount: number; inserts: JSONValue[] }
+  | { kind: "addToSet"; path: P; value: JSONValue }
+  | { kind: "deleteFromSet"; path: P; value: JSONValue }
+  | { kind: "move"; fromPath: P; fromKey: string | number; path: P; key: string | number }
+  | { kind: "copy"; fromPath: P; fromKey: string | number; path: P; key: string | number }
+  | { kind: "test"; path: P; key: string | number; value: JSONValue }
+  | { kind: "test"; path: P; key: string | number; exists: boolean }
+  | {
+      kind: "increment"
+      path: P
+      key: string | number
+      by: number
+      min?: number
+      max?: number
+    }
+  | {
+      kind: "stringSplice"
+      path: P
+      key: string | number
+      index: number
+      deleteCount: number
+      insert: string
+    }
+  | {
+      kind: "updateWhere"
+      path: P
+      where: JSONRecord
+      set?: JSONRecord
+      delete?: string[]
+    }
+  | { kind: "replace"; value: JSONObject }
+
 /**
  * Supported operations.
  * Applied sequentially within a tx.
  */
-export type Op =
-  | { kind: "set"; path: Path; key: string | number; value: JSONValue }
-  | { kind: "delete"; path: Path; key: string | number }
-  | { kind: "splice"; path: Path; index: number; deleteCount: number; inserts: JSONValue[] }
-  | { kind: "addToSet"; path: Path; value: JSONValue }
-  | { kind: "deleteFromSet"; path: Path; value: JSONValue }
+export type Op = OpWithPaths<Path>
+
+/**
+ * An op whose paths may also be RFC 6901 JSON Pointers (e.g. `"/tasks/3"`).
+ * APIs that take ops accept these, and normalize their paths with `toPath`.
+ */
+export type OpInput = OpWithPaths<Path | string>
+
+/**
+ * An op whose paths are RFC 6901 JSON Pointers (see `toJsonPointerOp`).
+ */
+export type JsonPointerOp = OpWithPaths<string>
+
+/**
+ * Details about why a validator rejected a tx.
+ */
+export type ValidationRejection = {
+  /**
+   * Identifier of the rule that failed.
+   */
+  ruleId?: string
+  /**
+   * Human readable explanation.
+   */
+  message?: string
+  /**
+   * Path to the offending value.
+   */
+  path?: Path
+}
+
+/**
+ * Result of a validation function.
+ * - `true`: the candidate state is valid.
+ * - `false`: the candidate state is invalid.
+ * - A `ValidationRejection` object: the candidate state is invalid, with details.
+ */
+export type ValidationResult = boolean | ValidationRejection
+
+/**
+ * Information about the tx being validated.
+ * It is the same on every client (and when time traveling), so validators may depend on it.
+ */
+export type ValidationContext<State extends JSONObject> = {
+  /**
+   * The state before the tx was applied.
+   */
+  prevState: State
+  /**
+   * The ops of the tx (rebased over concurrent txs if `rebaseArrayIndexes` is enabled).
+   */
+  ops: readonly Op[]
+  /**
+   * Key of the tx (the original key for re-emitted txs).
+   */
+  txKey: TxTimestampKey
+  /**
+   * Timestamp of the tx (the original one for re-emitted txs).
+   */
+  txTimestamp: TxTimestamp
+  /**
+   * Id of the client that emitted the tx.
+   * Note that client ids are not authenticated, any peer with write access can use any id.
+   */
+  clientId: ClientId
+  /**
+   * App metadata attached to the tx.
+   */
+  meta: TxMeta | undefined
+}
 
 /**
  * Validation function type.
  *
  * Rules:
- * - Validation MUST depend only on candidateState (and deterministic code).
+ * - Validation MUST depend only on candidateState and context (and deterministic code).
  * - Validation runs once per tx, after all ops apply.
  * - If validation fails, the x is rejected (state reverts to previous).
  * - If no validator is provided, validation defaults to true.
@@ -25,7 +139,58 @@ export type Op =
  * IMPORTANT: Validation outcome is **derived local state** and MUST NOT be replicated.
  * All clients MUST use the same validation logic to ensure consistency.
  */
-export type ValidateFn<State extends JSONObject> = (candidateState: State) => boolean
+export type ValidateFn<State extends JSONObject> = (
+  candidateState: State,
+  context: ValidationContext<State>
+) => ValidationResult
+
+/**
+ * Why a tx was rejected.
+ * - validation: the validator rejected the resulting state.
+ * - test: a "test" op (precondition) failed.
+ * - error: an exception was thrown while applying an op (`opIndex` is set)
+ *   or while running the validator (`opIndex` is undefined).
+ */
+export type TxRejection =
+  | ({ kind: "validation" } & ValidationRejection)
+  | { kind: "test"; message: string; opIndex: number }
+  | { kind: "error"; message: string; error: unknown; opIndex?: number }
+
+/**
+ * Returns the path touched when inserting / removing a key.
+ * Numeric keys address arrays, where every later element shifts, so the whole array is touched.
+ */
+function getKeyTouchedPath(path: Path, key: string | number): Path {
+  return typeof key === "number" ? path : [...path, key]
+}
+
+/**
+ * Returns the paths whose values may be changed by an op.
+ */
+export function getOpTouchedPaths(op: Op): Path[] {
+  switch (op.kind) {
+    case "set":
+    case "delete":
+    case "increment":
+    case "stringSplice":
+      return [[...op.path, op.key]]
+    case "splice":
+    case "addToSet":
+    case "deleteFromSet":
+    case "updateWhere":
+      return [op.path]
+    case "move":
+      return [getKeyTouchedPath(op.fromPath, op.fromKey), getKeyTouchedPath(op.path, op.key)]
+    case "copy":
+      return [getKeyTouchedPath(op.path, op.key)]
+    case "test":
+      return []
+    case "replace":
+      return [[]]
+    default:
+      throw failure(`Unknown operation kind: ${(op as any).kind}`)
+  }
+}
 
 /**
  * Resolves a path within the state.
@@ -33,7 +198,21 @@ export type ValidateFn<State extends JSONObject> = (candidateState: State) => bo
  */
 function resolvePath(state: JSONObject, path: Path): JSONValue {
   let current: JSONValue = state
-  for (const segment of path) {
+  for (let segment of path) {
+    if (isElementSelector(segment)) {
+      if (!Array.isArray(current)) {
+        failure(`Expected array at path segment ${describeSegment(segment)}`)
+      }
+      const index = findSelectedIndex(current, segment)
+      if (index < 0) {
+        failure(`No element matches path segment ${describeSegment(segment)}`)
+      }
+      segment = index
+    }
+    if (typeof segment === "string" && Array.isArray(current)) {
+      // Numeric strings (e.g. from JSON Pointers) address array elements
+      segment = parseArrayIndex(segment) ?? segment
+    }
     if (typeof segment === "string") {
       if (!isObject(current) || Array.isArray(current)) {
         failure(`Expected object at path segment "${segment}"`)
@@ -55,11 +234,183 @@ function resolvePath(state: JSONObject, path: Path): JSONValue {
   return current
 }
 
+/**
+ * Checks a "test" operation (precondition) against the state.
+ * A missing container counts as a missing key. Throws if the test fails.
+ */
+export function checkTestOp(state: JSONObject, op: Extract<Op, { kind: "test" }>): void {
+  const container = getValueAtPath(state, op.path)
+  const exists = isObject(container) && Object.hasOwn(container, op.key)
+  const location = JSON.stringify([...op.path, op.key])
+
+  if ("exists" in op) {
+    if (exists !== op.exists) {
+      failure(`Test failed: ${location} ${exists ? "exists" : "does not exist"}`)
+    }
+    return
+  }
+
+  const current = exists ? (container as Record<string | number, JSONValue>)[op.key] : undefined
+  if (!deepEqual(current, op.value)) {
+    failure(`Test failed: ${location} does not have the expected value`)
+  }
+}
+
+/**
+ * Computes the new value of an "increment" operation given the current value
+ * (undefined when the key does not exist, which counts as 0).
+ * Throws if the current value is not a number.
+ */
+export function computeIncrement(
+  current: JSONValue,
+  op: Extract<Op, { kind: "increment" }>
+): number {
+  if (current !== undefined && typeof current !== "number") {
+    failure(`increment requires a number, got ${typeof current}`)
+  }
+  if (!Number.isFinite(op.by)) {
+    failure("increment requires a finite amount")
+  }
+  let value = (current ?? 0) + op.by
+  if (op.min !== undefined && value < op.min) value = op.min
+  if (op.max !== undefined && value > op.max) value = op.max
+  return value
+}
+
+/**
+ * Computes the new value of a "stringSplice" operation given the current value.
+ * The index is clamped to the length of the string. Throws if the current value is not a string.
+ */
+export function computeStringSplice(
+  current: JSONValue,
+  op: Extract<Op, { kind: "stringSplice" }>
+): string {
+  if (typeof current !== "string") {
+    failure(
+      `stringSplice requires a string, got ${current === undefined ? "undefined" : typeof current}`
+    )
+  }
+  const index = Math.min(op.index, current.length)
+  return current.slice(0, index) + op.insert + current.slice(index + op.deleteCount)
+}
+
+/**
+ * Checks if an array element matches the `where` predicate of an "updateWhere" operation
+ * (it is an object and every field of the predicate is deeply equal to the element's).
+ */
+export function matchesWhere(item: JSONValue, where: JSONRecord): item is JSONRecord {
+  if (!isObject(item) || Array.isArray(item)) return false
+  const record = item as JSONRecord
+  return Object.keys(where).every(
+    (field) => Object.hasOwn(record, field) && deepEqual(record[field], where[field])
+  )
+}
+
+/**
+ * Updates the fields of an array element matched by an "updateWhere" operation
+ * (sets first, then deletes).
+ */
+export function updateMatchedElement(
+  item: JSONRecord,
+  op: Extract<Op, { kind: "updateWhere" }>,
+  cloneValues: boolean
+): void {
+  if (op.set) {
+    for (const field of Object.keys(op.set)) {
+      item[field] = cloneValues ? deepClone(op.set[field]) : op.set[field]
+    }
+  }
+  if (op.delete) {
+    for (const field of op.delete) {
+      delete item[field]
+    }
+  }
+}
+
+/**
+ * Converts a key into an array index.
+ * Throws if the key is not a valid index.
+ */
+function toArrayIndex(key: string | number, opKind: Op["kind"]): number {
+  const index = typeof key === "number" ? key : parseArrayIndex(key)
+  if (index === null || !Number.isInteger(index) || index < 0) {
+    failure(`${opKind} requires a valid array index, got "${key}"`)
+  }
+  return index
+}
+
+/**
+ * Applies a "move" or "copy" operation.
+ * The source is read (and removed for moves) first, then the target path is resolved and the value
+ * is inserted (arrays) or set (objects).
+ */
+function applyMoveOrCopy(state: JSONObject, op: Extract<Op, { kind: "move" | "copy" }>): void {
+  if (
+    op.kind === "move" &&
+    isPathPrefix(toIndexPath(state, [...op.fromPath, op.fromKey]), toIndexPath(state, op.path))
+  ) {
+    failure("Cannot move a value into itself")
+  }
+
+  const source = resolvePath(state, op.fromPath)
+  if (!isObject(source)) {
+    failure(`${op.kind} requires object or array source container`)
+  }
+
+  let value: JSONValue
+  if (Array.isArray(source)) {
+    const index = toArrayIndex(op.fromKey, op.kind)
+    if (index >= source.length) {
+      failure(`${op.kind} source index ${index} out of bounds`)
+    }
+    value = source[index]
+    if (op.kind === "move") {
+      source.splice(index, 1)
+    }
+  } else {
+    if (!Object.hasOwn(source, op.fromKey)) {
+      failure(`${op.kind} source property "${op.fromKey}" does not exist`)
+    }
+    value = source[op.fromKey]
+    if (op.kind === "move") {
+      delete source[op.fromKey]
+    }
+  }
+
+  const target = resolvePath(state, op.path)
+  if (!isObject(target)) {
+    failure(`${op.kind} requires object or array target container`)
+  }
+  // Copies must never alias the source
+  const finalValue = op.kind === "copy" ? deepClone(value) : value
+  if (Array.isArray(target)) {
+    const index = toArrayIndex(op.key, op.kind)
+    target.splice(Math.min(index, target.length), 0, finalValue)
+  } else {
+    ;(target as JSONRecord)[op.key] = finalValue
+  }
+}
+
 /**
  * Applies a single operation.
  * (Reference implementation for standard JSON-patch behavior)
  */
-function applyOp(state: JSONObject, op: Op, cloneValues: boolean): void {
+function applyOp(
+  state: JSONObject,
+  op: Exclude<Op, { kind: "replace" }>,
+  cloneValues: boolean
+): void {
+  // move / copy resolve two paths (the target one after removing the source)
+  if (op.kind === "move" || op.kind === "copy") {
+    applyMoveOrCopy(state, op)
+    return
+  }
+  // Tests do not require the container to exist
+  if (op.kind === "test") {
+    checkTestOp(state, op)
+    return
+  }
+
   // Special case: if path is empty, we can't resolve "container".
   // The caller must handle root-level replacement if necessary, but
   // standard Ops usually act ON a container.
@@ -123,6 +474,32 @@ function applyOp(state: JSONObject, op: Op, cloneValues: boolean): void {
       break
     }
 
+    case "increment": {
+      if (!isObject(container)) {
+        failure("increment requires object or array container")
+      }
+      let key: string | number = op.key
+      if (Array.isArray(container)) {
+        key = toArrayIndex(key, op.kind)
+        if (key >= container.length) {
+          failure(`Index ${key} out of bounds`)
+        }
+      }
+      const record = container as Record<string | number, JSONValue>
+      record[key] = computeIncrement(Object.hasOwn(record, key) ? record[key] : undefined, op)
+      break
+    }
+
+    case "stringSplice": {
+      if (!isObject(container)) {
+        failure("stringSplice requires object or array container")
+      }
+      const key = Array.isArray(container) ? toArrayIndex(op.key, op.kind) : op.key
+      const record = container as Record<string | number, JSONValue>
+      record[key] = computeStringSplice(Object.hasOwn(record, key) ? record[key] : undefined, op)
+      break
+    }
+
     case "addToSet":
       if (!Array.isArray(container)) {
         failure("addToSet requires array container")
@@ -144,11 +521,55 @@ function applyOp(state: JSONObject, op: Op, cloneValues: boolean): void {
       }
       break
 
+    case "updateWhere":
+      if (!Array.isArray(container)) {
+        failure("updateWhere requires array container")
+      }
+      for (const item of container) {
+        if (matchesWhere(item, op.where)) {
+          // Always clone, so the updated elements never share values
+          updateMatchedElement(item, op, true)
+        }
+      }
+      break
+
     default:
       throw failure(`Unknown operation kind: ${(op as any).kind}`)
   }
 }
 
+/**
+ * Applies a "replace" operation, reusing the root when the value has the same type (object / array)
+ * so references to it stay valid.
+ * Returns the new root.
+ */
+function applyReplace(
+  root: JSONObject,
+  op: Extract<Op, { kind: "replace" }>,
+  cloneValues: boolean
+): JSONObject {
+  if (!isObject(op.value)) {
+    failure("replace requires an object or array value")
+  }
+  const value = cloneValues ? deepClone(op.value) : op.value
+
+  if (Array.isArray(root) !== Array.isArray(value)) {
+    return value
+  }
+  if (Array.isArray(root)) {
+    root.length = 0
+    for (const item of value as JSONValue[]) {
+      root.push(item)
+    }
+  } else {
+    for (const key of Object.keys(root)) {
+      delete root[key]
+    }
+    Object.assign(root, value)
+  }
+  return root
+}
+
 /**
  * Options for applyOps.
  */
@@ -167,13 +588,28 @@ export interface ApplyOpsOptions {
  * Use this to synchronize an external mutable state (e.g., MobX store)
  * with the operations received via subscribe().
  *
- * @param ops - The list of operations to apply.
+ * A "replace" op replaces the contents of the target in place, unless it changes the root type
+ * (object / array), in which case a new root is returned instead.
+ *
+ * @param ops - The list of operations to apply (paths may also be JSON Pointers).
  * @param target - The mutable object to modify.
  * @param options - Optional settings for controlling cloning behavior.
+ * @returns The resulting root (the target itself unless a "replace" op changed the root type).
  */
-export function applyOps(ops: readonly Op[], target: JSONObject, options?: ApplyOpsOptions): void {
+export function applyOps(
+  ops: readonly OpInput[],
+  target: JSONObject,
+  options?: ApplyOpsOptions
+): JSONObject {
   const cloneValues = options?.cloneValues ?? true
-  for (const op of ops) {
-    applyOp(target, op, cloneValues)
+  let root = target
+  for (const input of ops) {
+    const op = normalizeOp(input)
+    if (op.kind === "replace") {
+      root = applyReplace(root, op, cloneValues)
+    } else {
+      applyOp(root, op, cloneValues)
+    }
   }
+  return root
 }
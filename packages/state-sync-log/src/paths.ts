@@ -0,0 +1,106 @@
+import type { ElementSelector, JSONValue, Path, PathSegment } from "./json"
+import { isObject } from "./utils"
+
+/**
+ * Checks if a path segment is an array element selector.
+ */
+export function isElementSelector(segment: PathSegment): segment is ElementSelector {
+  return typeof segment === "object" && segment !== null
+}
+
+/**
+ * Returns the index of the first element of the array matched by the selector, or -1 if none.
+ */
+export function findSelectedIndex(array: readonly JSONValue[], selector: ElementSelector): number {
+  const fields = Object.keys(selector)
+  return array.findIndex(
+    (item) =>
+      isObject(item) &&
+      !Array.isArray(item) &&
+      fields.every((field) => Object.hasOwn(item, field) && item[field] === selector[field])
+  )
+}
+
+/**
+ * Returns a description of a path segment for error messages.
+ */
+export function describeSegment(segment: PathSegment): string {
+  return isElementSelector(segment) ? JSON.stringify(segment) : String(segment)
+}
+
+/**
+ * Checks if two path segments may refer to the same key.
+ * Array indexes may be expressed either as numbers or as numeric strings.
+ * Element selectors can only be told apart from other selectors with a different value for
+ * a common field, so they are otherwise assumed to possibly refer to the same element.
+ */
+function isSameSegment(a: PathSegment, b: PathSegment): boolean {
+  const aIsSelector = isElementSelector(a)
+  const bIsSelector = isElementSelector(b)
+  if (!aIsSelector && !bIsSelector) {
+    return a === b || String(a) === String(b)
+  }
+  if (aIsSelector && bIsSelector) {
+    return Object.keys(a).every((field) => !Object.hasOwn(b, field) || a[field] === b[field])
+  }
+  return true
+}
+
+/**
+ * Checks if `prefix` is a prefix of (or equal to) `path`.
+ */
+export function isPathPrefix(prefix: Path, path: Path): boolean {
+  if (prefix.length > path.length) return false
+  for (let i = 0; i < prefix.length; i++) {
+    if (!isSameSegment(prefix[i], path[i])) return false
+  }
+  return true
+}
+
+/**
+ * Checks if two paths intersect, this is, if a change at one of them may affect the other
+ * (one is a prefix of the other).
+ */
+export function pathsIntersect(a: Path, b: Path): boolean {
+  return a.length <= b.length ? isPathPrefix(a, b) : isPathPrefix(b, a)
+}
+
+/**
+ * Returns the value at the given path, or undefined if the path cannot be resolved.
+ */
+export function getValueAtPath(state: JSONValue, path: Path): JSONValue {
+  let current = state
+  for (let segment of path) {
+    if (!isObject(current)) return undefined
+    if (isElementSelector(segment)) {
+      if (!Array.isArray(current)) return undefined
+      segment = findSelectedIndex(current, segment)
+    }
+    if (!Object.hasOwn(current, segment)) return undefined
+    current = (current as Record<string | number, JSONValue>)[segment]
+  }
+  return current
+}
+
+/**
+ * Returns the path with its element selectors replaced by the indexes they currently resolve to
+ * (selectors that cannot be resolved are kept).
+ */
+export function toIndexPath(state: JSONValue, path: Path): Path {
+  if (!path.some(isElementSelector)) return path
+
+  const indexPath: PathSegment[] = []
+  let current = state
+  for (let segment of path) {
+    if (isElementSelector(segment) && Array.isArray(current)) {
+      const index = findSelectedIndex(current, segment)
+      if (index >= 0) segment = index
+    }
+    indexPath.push(segment)
+    current =
+      isObject(current) && !isElementSelector(segment)
+        ? (current as Record<string | number, JSONValue>)[segment]
+        : undefined
+  }
+  return indexPath
+}
@@ -0,0 +1,249 @@
+import type { Path, PathSegment } from "./json"
+import type { Op } from "./operations"
+import { isElementSelector } from "./paths"
+import { parseArrayIndex } from "./utils"
+
+/**
+ * The effect of a splice on the indexes of an array (or of a string splice on the indexes of a
+ * string, when `text` is true).
+ */
+type SpliceRange = {
+  path: Path
+  index: number
+  deleteCount: number
+  insertCount: number
+  text: boolean
+}
+
+type SpliceOp = Extract<Op, { kind: "splice" }>
+type StringSpliceOp = Extract<Op, { kind: "stringSplice" }>
+
+function toSpliceRange(op: Op): SpliceRange | null {
+  switch (op.kind) {
+    case "splice":
+      return {
+        path: op.path,
+        index: op.index,
+        deleteCount: op.deleteCount,
+        insertCount: op.inserts.length,
+        text: false,
+      }
+    case "stringSplice":
+      return {
+        path: [...op.path, op.key],
+        index: op.index,
+        deleteCount: op.deleteCount,
+        insertCount: op.insert.length,
+        text: true,
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Checks if two path segments are the same key (element selectors are compared by value).
+ */
+function isSameSegment(a: PathSegment, b: PathSegment): boolean {
+  if (isElementSelector(a) || isElementSelector(b)) {
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+  return a === b || String(a) === String(b)
+}
+
+function isSamePath(a: Path, b: Path): boolean {
+  return a.length === b.length && a.every((segment, i) => isSameSegment(segment, b[i]))
+}
+
+/**
+ * Returns the index of the element of the array at `arrayPath` that `path` goes through,
+ * or null if it does not go through one by index.
+ */
+function getIndexThroughArray(path: Path, arrayPath: Path): number | null {
+  if (path.length <= arrayPath.length) return null
+  for (let i = 0; i < arrayPath.length; i++) {
+    if (!isSameSegment(path[i], arrayPath[i])) return null
+  }
+  const segment = path[arrayPath.length]
+  return isElementSelector(segment) ? null : toElementIndex(segment)
+}
+
+/**
+ * Maps the index of an element through a splice.
+ * Returns null if the element was deleted by the splice.
+ */
+function mapElementIndex(index: number, range: SpliceRange): number | null {
+  if (index < range.index) return index
+  if (index >= range.index + range.deleteCount) {
+    return index - range.deleteCount + range.insertCount
+  }
+  return null
+}
+
+/**
+ * Maps a path that goes through the array changed by a splice.
+ * Returns null if the element it goes through was deleted.
+ */
+function mapPath(path: Path, range: SpliceRange): Path | null {
+  if (range.text) return path
+  const index = getIndexThroughArray(path, range.path)
+  if (index === null) return path
+  const newIndex = mapElementIndex(index, range)
+  if (newIndex === null) return null
+  const newPath = path.slice()
+  newPath[range.path.length] = newIndex
+  return newPath
+}
+
+function toElementIndex(key: string | number): number | null {
+  return typeof key === "number" ? key : key === "length" ? null : parseArrayIndex(key)
+}
+
+function withDeleteOnly(op: SpliceOp | StringSpliceOp, index: number, deleteCount: number): Op {
+  return op.kind === "splice"
+    ? { ...op, index, deleteCount, inserts: [] }
+    : { ...op, index, deleteCount, insert: "" }
+}
+
+/**
+ * Rebases a splice of the same array (or string) over a concurrent splice that was applied first.
+ * Elements already deleted by the concurrent splice are not deleted again, and elements it
+ * inserted are never deleted, so the result may be split into two splices.
+ */
+function rebaseSplice(op: SpliceOp | StringSpliceOp, range: SpliceRange): Op[] {
+  const shift = range.insertCount - range.deleteCount
+  const rangeEnd = range.index + range.deleteCount
+  const end = op.index + op.deleteCount
+
+  // Deleted elements after the concurrent splice
+  const laterStart = Math.max(op.index, rangeEnd)
+  const laterCount = Math.max(0, end - laterStart)
+
+  if (op.index < range.index) {
+    const earlierCount = Math.min(end, range.index) - op.index
+    const earlier: Op = { ...op, deleteCount: earlierCount }
+    if (laterCount === 0) return [earlier]
+    // Delete the later elements first, so the index of the earlier splice stays valid
+    return [withDeleteOnly(op, laterStart + shift, laterCount), earlier]
+  }
+
+  // Inserts at (or inside) the concurrent splice go after its inserts
+  const index = op.index >= rangeEnd ? op.index + shift : range.index + range.insertCount
+  return [{ ...op, index, deleteCount: laterCount }]
+}
+
+/**
+ * Rebases an op computed without a concurrent splice over it.
+ * Returns the resulting ops (none if the op targets an element the splice deleted).
+ */
+function rebaseOp(op: Op, range: SpliceRange): Op[] {
+  if (op.kind === "replace") return [op]
+
+  if (range.text) {
+    return op.kind === "stringSplice" && isSamePath([...op.path, op.key], range.path)
+      ? rebaseSplice(op, range)
+      : [op]
+  }
+
+  if (op.kind === "move" || op.kind === "copy") {
+    const fromPath = mapPath(op.fromPath, range)
+    const path = mapPath(op.path, range)
+    return fromPath && path ? [{ ...op, fromPath, path }] : []
+  }
+
+  const path = mapPath(op.path, range)
+  if (!path) return []
+  const mapped = path === op.path ? op : { ...op, path }
+  if (!isSamePath(mapped.path, range.path)) return [mapped]
+
+  switch (mapped.kind) {
+    case "splice":
+      return rebaseSplice(mapped, range)
+    case "set":
+    case "delete":
+    case "stringSplice": {
+      const index = toElementIndex(mapped.key)
+      if (index === null) return [mapped]
+      const newIndex = mapElementIndex(index, range)
+      return newIndex === null ? [] : [{ ...mapped, key: newIndex }]
+    }
+    default:
+      return [mapped]
+  }
+}
+
+/**
+ * Updates a concurrent splice so it describes its effect on the state after the given op.
+ * Returns null if the array it changed is gone.
+ */
+function rangeAfterOp(range: SpliceRange, op: Op): SpliceRange | null {
+  const opRange = toSpliceRange(op)
+  if (!opRange) return range
+
+  const path = mapPath(range.path, opRange)
+  if (!path) return null
+  if (range.text !== opRange.text || !isSamePath(path, opRange.path)) {
+    return path === range.path ? range : { ...range, path }
+  }
+
+  // Both splices changed the same array (or string): the concurrent one was applied first
+  const end = opRange.index + opRange.deleteCount
+  const overlap = Math.max(
+    0,
+    Math.min(range.index + range.deleteCount, end) - Math.max(range.index, opRange.index)
+  )
+  // Inserts at the same index keep the concurrent ones first
+  let index = range.index
+  if (range.index > opRange.index) {
+    index =
+      range.index >= end
+        ? range.index - opRange.deleteCount + opRange.insertCount
+        : opRange.index + opRange.insertCount
+  }
+  return { ...range, path, index, deleteCount: range.deleteCount - overlap }
+}
+
+/**
+ * Rebases the ops of a tx over the ops of concurrent txs (txs its author had not seen) that were
+ * applied before it, so the array indexes of its `splice`, `set`, `delete` and `stringSplice` ops
+ * (and the array indexes in the paths of all its ops) point to the elements its author intended,
+ * and the text indexes of its `stringSplice` ops point to the characters its author intended.
+ * Ops that target elements deleted by the concurrent txs are dropped.
+ *
+ * This is a best-effort operational transform: only `splice` and `stringSplice` ops of the
+ * concurrent txs are taken into account.
+ *
+ * @param ops - The ops of the tx, in application order.
+ * @param concurrentOps - The applied ops of the concurrent txs, in application order.
+ */
+export function rebaseOps(ops: readonly Op[], concurrentOps: readonly Op[]): readonly Op[] {
+  let ranges: SpliceRange[] = []
+  for (const op of concurrentOps) {
+    const range = toSpliceRange(op)
+    if (range) {
+      ranges.push(range)
+    }
+  }
+  if (ranges.length === 0) return ops
+
+  const result: Op[] = []
+  for (const op of ops) {
+    // Rebase the op over each concurrent splice in turn, and each concurrent splice over the
+    // op (as rebased so far), so the next ops of the tx are rebased over their updated effects
+    let rebased: Op[] = [op]
+    const nextRanges: SpliceRange[] = []
+    for (const range of ranges) {
+      let nextRange: SpliceRange | null = range
+      for (const rebasedOp of rebased) {
+        nextRange = nextRange && rangeAfterOp(nextRange, rebasedOp)
+      }
+      if (nextRange) {
+        nextRanges.push(nextRange)
+      }
+      rebased = rebased.flatMap((rebasedOp) => rebaseOp(rebasedOp, range))
+    }
+    result.push(...rebased)
+    ranges = nextRanges
+  }
+  return result
+}
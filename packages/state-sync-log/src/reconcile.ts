@@ -1,21 +1,100 @@
 import { failure } from "./error"
 import { JSONRecord, JSONValue, Path } from "./json"
 import { Op } from "./operations"
+import { isObject } from "./utils"
 
 /**
  * Reconciles the current state with the target state by computing and emitting
  * the minimal set of operations needed to transform currentState into targetState.
+ * Edits of long strings are emitted as `stringSplice` ops only if `textSplices` is true
+ * (see `diffText`), since their indexes are only rebased over concurrent edits when
+ * rebasing array indexes.
  */
-export function computeReconcileOps(currentState: JSONValue, targetState: JSONValue): Op[] {
+export function computeReconcileOps(
+  currentState: JSONValue,
+  targetState: JSONValue,
+  textSplices = false
+): Op[] {
   const ops: Op[] = []
-  diffValue(currentState, targetState, [], ops)
+  diffValue(currentState, targetState, [], ops, textSplices)
   return ops
 }
 
-function diffValue(current: JSONValue, target: JSONValue, path: Path, ops: Op[]): void {
+/**
+ * A text edit: `deleteCount` characters at `index` are replaced with `insert`.
+ */
+export type TextEdit = { index: number; deleteCount: number; insert: string }
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff
+}
+
+/**
+ * Strings shorter than this are replaced as a whole rather than spliced.
+ */
+const minTextSpliceLength = 32
+
+/**
+ * Computes the single edit that turns one string into another (everything between their common
+ * prefix and suffix), without splitting surrogate pairs.
+ * Returns undefined if the current string is short or they share neither a prefix nor a suffix
+ * (so replacing the whole string is simpler).
+ */
+export function diffText(current: string, target: string): TextEdit | undefined {
+  if (current.length < minTextSpliceLength) return undefined
+
+  const minLength = Math.min(current.length, target.length)
+
+  let prefix = 0
+  while (prefix < minLength && current[prefix] === target[prefix]) prefix++
+  if (prefix > 0 && prefix < minLength && isHighSurrogate(current.charCodeAt(prefix - 1))) {
+    prefix--
+  }
+
+  let suffix = 0
+  while (
+    suffix < minLength - prefix &&
+    current[current.length - 1 - suffix] === target[target.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  if (suffix > 0 && isLowSurrogate(current.charCodeAt(current.length - suffix))) {
+    suffix--
+  }
+
+  if (prefix === 0 && suffix === 0) return undefined
+  return {
+    index: prefix,
+    deleteCount: current.length - prefix - suffix,
+    insert: target.slice(prefix, target.length - suffix),
+  }
+}
+
+function diffValue(
+  current: JSONValue,
+  target: JSONValue,
+  path: Path,
+  ops: Op[],
+  textSplices: boolean
+): void {
   // 1. Reference equality (structural sharing)
   if (current === target) return
 
+  // Edits of strings are emitted as text splices, so non-overlapping edits merge
+  if (textSplices && typeof current === "string" && typeof target === "string" && path.length > 0) {
+    const edit = diffText(current, target)
+    if (edit) {
+      // Reconcile paths never contain element selectors
+      const key = path[path.length - 1] as string | number
+      ops.push({ kind: "stringSplice", path: path.slice(0, -1), key, ...edit })
+      return
+    }
+  }
+
   // 2. Handle primitives and null quickly
   const currentType = typeof current
   const targetType = typeof target
@@ -37,13 +116,19 @@ function diffValue(current: JSONValue, target: JSONValue, path: Path, ops: Op[])
   }
 
   if (currentIsArray) {
-    diffArray(current, target as JSONValue[], path, ops)
+    diffArray(current, target as JSONValue[], path, ops, textSplices)
   } else {
-    diffObject(current as JSONRecord, target as JSONRecord, path, ops)
+    diffObject(current as JSONRecord, target as JSONRecord, path, ops, textSplices)
   }
 }
 
-function diffObject(current: JSONRecord, target: JSONRecord, path: Path, ops: Op[]): void {
+function diffObject(
+  current: JSONRecord,
+  target: JSONRecord,
+  path: Path,
+  ops: Op[],
+  textSplices: boolean
+): void {
   // 1. Delete keys in current but not in target
   for (const key in current) {
     if (Object.hasOwn(current, key) && !Object.hasOwn(target, key)) {
@@ -59,13 +144,19 @@ function diffObject(current: JSONRecord, target: JSONRecord, path: Path, ops: Op
         ops.push({ kind: "set", path, key, value: targetVal })
       } else if (current[key] !== targetVal) {
         // Only recurse if values differ (reference check first)
-        diffValue(current[key], targetVal, [...path, key], ops)
+        diffValue(current[key], targetVal, [...path, key], ops, textSplices)
       }
     }
   }
 }
 
-function diffArray(current: JSONValue[], target: JSONValue[], path: Path, ops: Op[]): void {
+function diffArray(
+  current: JSONValue[],
+  target: JSONValue[],
+  path: Path,
+  ops: Op[],
+  textSplices: boolean
+): void {
   const currentLen = current.length
   const targetLen = target.length
   const minLen = currentLen < targetLen ? currentLen : targetLen
@@ -73,7 +164,7 @@ function diffArray(current: JSONValue[], target: JSONValue[], path: Path, ops: O
   // Diff common elements
   for (let i = 0; i < minLen; i++) {
     if (current[i] !== target[i]) {
-      diffValue(current[i], target[i], [...path, i], ops)
+      diffValue(current[i], target[i], [...path, i], ops, textSplices)
     }
   }
 
@@ -99,14 +190,17 @@ function diffArray(current: JSONValue[], target: JSONValue[], path: Path, ops: O
 
 function emitReplace(path: Path, value: JSONValue, ops: Op[]): void {
   if (path.length === 0) {
-    // Cannot replace root directly via Ops (unless we define a 'root' op, which we don't)
-    // We expect root to be handled by diffObject usually.
-    // If we land here, it means root types mismatched (e.g. Obj -> Array).
-    failure("StateSyncLog: Cannot replace root state directly via Ops.")
+    // Root types mismatched (e.g. Obj -> Array): replace the whole root
+    if (!isObject(value)) {
+      failure("StateSyncLog: The root state must be an object or array.")
+    }
+    ops.push({ kind: "replace", value })
+    return
   }
 
   const parentPath = path.slice(0, -1)
-  const keyToCheck = path[path.length - 1]
+  // Reconcile paths never contain element selectors
+  const keyToCheck = path[path.length - 1] as string | number
 
   if (typeof keyToCheck === "string") {
     // Parent is Object
@@ -0,0 +1,78 @@
+import { failure } from "./error"
+import type { JSONObject, PathSegment } from "./json"
+import type { ValidateFn } from "./operations"
+import { isObject } from "./utils"
+
+/**
+ * A segment of the path of a Standard Schema issue.
+ */
+export interface StandardSchemaV1PathSegment {
+  readonly key: PropertyKey
+}
+
+/**
+ * An issue reported by a Standard Schema validator.
+ */
+export interface StandardSchemaV1Issue {
+  readonly message: string
+  readonly path?: readonly (PropertyKey | StandardSchemaV1PathSegment)[] | undefined
+}
+
+/**
+ * The result of a Standard Schema validation.
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaV1Issue[] }
+
+/**
+ * A Standard Schema (https://standardschema.dev) compatible validator, such as a Zod, Valibot or
+ * ArkType schema. Only the parts used by `standardSchemaValidator` are declared.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+/**
+ * Whether a value is a thenable (a promise, possibly from another realm or library).
+ */
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return isObject(value) && typeof (value as PromiseLike<unknown>).then === "function"
+}
+
+function toPathSegment(segment: PropertyKey | StandardSchemaV1PathSegment): PathSegment {
+  const key = typeof segment === "object" ? segment.key : segment
+  return typeof key === "symbol" ? String(key) : key
+}
+
+/**
+ * Creates a validation function that checks the state against a Standard Schema compatible
+ * validator (e.g. a Zod, Valibot or ArkType schema).
+ *
+ * Invalid states are rejected with the `message` and `path` of the first issue reported.
+ * The schema must validate synchronously (async validators would make the outcome depend on
+ * timing), and only its verdict is used: values it transforms are not written to the state.
+ *
+ * @param schema - The schema the state must match.
+ * @returns The validation function.
+ */
+export function standardSchemaValidator<State extends JSONObject>(
+  schema: StandardSchemaV1
+): ValidateFn<State> {
+  return (state) => {
+    const result = schema["~standard"].validate(state)
+    if (isThenable(result)) {
+      failure("Standard Schema validators used to validate the state must be synchronous")
+    }
+    if (!result.issues || result.issues.length === 0) return true
+    const [{ message, path }] = result.issues
+    return path ? { message, path: path.map(toPathSegment) } : { message }
+  }
+}
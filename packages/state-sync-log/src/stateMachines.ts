@@ -0,0 +1,260 @@
+import type { JSONObject, JSONValue, Path, PathSegment } from "./json"
+import { parseJsonPointer } from "./jsonPointer"
+import type {
+  ValidateFn,
+  ValidationContext,
+  ValidationRejection,
+  ValidationResult,
+} from "./operations"
+import { isObject } from "./utils"
+
+/**
+ * A change of the value of a field governed by a state machine.
+ */
+export type StateTransition<State extends JSONObject> = {
+  /**
+   * The state before the tx.
+   */
+  from: string
+  /**
+   * The state after the tx.
+   */
+  to: string
+  /**
+   * Path of the field in the candidate state.
+   */
+  path: Path
+  /**
+   * The candidate state.
+   */
+  state: State
+  /**
+   * Information about the tx being validated.
+   */
+  context: ValidationContext<State>
+}
+
+/**
+ * Declares the allowed transitions of the values of a field (e.g. the status of tasks).
+ */
+export type StateMachine<State extends JSONObject> = {
+  /**
+   * Id of the state machine, reported as the `ruleId` of the txs it rejects.
+   */
+  id: string
+  /**
+   * Path pattern of the governed values (a path or a JSON Pointer), where `"*"` segments match
+   * every key of an object or every index of an array, e.g. `["tasks", "*", "status"]`.
+   */
+  path: readonly (string | number)[] | string
+  /**
+   * Maps every state to the states it may move to (final states map to an empty array).
+   * Values that are not states of the machine are rejected.
+   */
+  transitions: { readonly [from: string]: readonly string[] }
+  /**
+   * States new values may start in (when the field or its entity is created).
+   * If omitted they may start in any state.
+   */
+  initial?: readonly string[]
+  /**
+   * Field identifying the elements of arrays matched by `"*"`, so elements are paired by it
+   * between the states before and after the tx rather than by index (elements without it are
+   * paired by index). Defaults to `"id"`.
+   */
+  idKey?: string
+  /**
+   * Further checks allowed transitions, e.g. who may make them.
+   * Rejections keep their details, with the path of the field if they have none, a default
+   * message naming the transition if they have none, and the machine `id` as the `ruleId`.
+   */
+  guard?: (transition: StateTransition<State>) => ValidationResult
+}
+
+/**
+ * A value that changed between the states before and after the tx.
+ */
+type ChangedValue = {
+  path: Path
+  from: JSONValue | undefined
+  to: JSONValue | undefined
+}
+
+const WILDCARD = "*"
+
+function getChild(container: JSONValue | undefined, key: string | number): JSONValue | undefined {
+  if (!isObject(container)) return undefined
+  const record = container as Record<string | number, JSONValue>
+  return Object.hasOwn(record, key) ? record[key] : undefined
+}
+
+/**
+ * Returns the key an array element is paired by: its id if it has one, otherwise its index.
+ */
+function getElementKey(element: JSONValue, index: number, idKey: string): string {
+  const id = getChild(element, idKey)
+  return !Array.isArray(element) && id !== undefined && !isObject(id)
+    ? `id:${JSON.stringify(id)}`
+    : `index:${index}`
+}
+
+/**
+ * Yields the values matching a pattern that changed, skipping the subtrees the tx did not change
+ * (which keep their references).
+ */
+function* getChangedValues(
+  prev: JSONValue | undefined,
+  next: JSONValue | undefined,
+  pattern: readonly (string | number)[],
+  idKey: string,
+  depth = 0,
+  path: PathSegment[] = []
+): Generator<ChangedValue> {
+  if (prev === next) return
+  if (depth === pattern.length) {
+    yield { path, from: prev, to: next }
+    return
+  }
+  // Removed values cannot be illegal transitions
+  if (!isObject(next)) return
+
+  const segment = pattern[depth]
+  const isArray = Array.isArray(next)
+  if (segment !== WILDCARD) {
+    const childPath = [...path, isArray ? Number(segment) : segment]
+    yield* getChangedValues(
+      getChild(prev, segment),
+      getChild(next, segment),
+      pattern,
+      idKey,
+      depth + 1,
+      childPath
+    )
+  } else if (isArray) {
+    const prevElements = new Map<string, JSONValue>()
+    if (Array.isArray(prev)) {
+      prev.forEach((element, i) => {
+        const key = getElementKey(element, i, idKey)
+        if (!prevElements.has(key)) prevElements.set(key, element)
+      })
+    }
+    for (let i = 0; i < next.length; i++) {
+      const prevElement = prevElements.get(getElementKey(next[i], i, idKey))
+      yield* getChangedValues(prevElement, next[i], pattern, idKey, depth + 1, [...path, i])
+    }
+  } else {
+    const prevRecord = Array.isArray(prev) ? undefined : prev
+    for (const key of Object.keys(next)) {
+      yield* getChangedValues(
+        getChild(prevRecord, key),
+        getChild(next, key),
+        pattern,
+        idKey,
+        depth + 1,
+        [...path, key]
+      )
+    }
+  }
+}
+
+function describeState(value: JSONValue): string {
+  return JSON.stringify(value)
+}
+
+/**
+ * Checks a state machine against a candidate state, returning the rejection of the first illegal
+ * change.
+ */
+type StateMachineChecker<State extends JSONObject> = (
+  state: State,
+  context: ValidationContext<State>
+) => ValidationRejection | undefined
+
+function createStateMachineChecker<State extends JSONObject>(
+  machine: StateMachine<State>
+): StateMachineChecker<State> {
+  const pattern: readonly (string | number)[] =
+    typeof machine.path === "string" ? parseJsonPointer(machine.path) : machine.path
+  const idKey = machine.idKey ?? "id"
+  const field = pattern.findLast((segment) => segment !== WILDCARD) ?? "value"
+  const isState = (value: JSONValue): value is string =>
+    typeof value === "string" && Object.hasOwn(machine.transitions, value)
+
+  return (state, context) => {
+    for (const { path, from, to } of getChangedValues(context.prevState, state, pattern, idKey)) {
+      if (to === undefined) continue
+      if (!isState(to)) {
+        return { message: `${describeState(to)} is not a state of ${field}`, path }
+      }
+
+      if (from === undefined) {
+        if (machine.initial && !machine.initial.includes(to)) {
+          return { message: `${field} cannot start as ${describeState(to)}`, path }
+        }
+        continue
+      }
+
+      const transition = `${describeState(from)} to ${describeState(to)}`
+      const illegalTransition = `Illegal transition of ${field} from ${transition}`
+      if (!isState(from) || !machine.transitions[from].includes(to)) {
+        return { message: illegalTransition, path }
+      }
+
+      if (machine.guard) {
+        const result = machine.guard({ from, to, path, state, context })
+        if (result === true) continue
+        if (result === false) return { message: illegalTransition, path }
+        return {
+          ...result,
+          message: result.message ?? illegalTransition,
+          path: result.path ?? path,
+        }
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * Creates a validation function that enforces state machines, so the values of a field (e.g.
+ * `tasks[*].status`) can only move along declared transitions (e.g. draft → review → published).
+ *
+ * Transitions are found by comparing the states before and after the tx, skipping the subtrees
+ * the tx did not change, so every client reaches the same verdict. Removing a value is always
+ * allowed.
+ *
+ * State machines are checked in order and the first illegal change rejects the tx, with the id
+ * of the machine as the `ruleId`, the path of the value and a message naming the transition.
+ *
+ * @example
+ * ```ts
+ * const validate = stateMachineValidator<State>([
+ *   {
+ *     id: "articleStatus",
+ *     path: ["articles", "*", "status"],
+ *     transitions: { draft: ["review"], review: ["draft", "published"], published: [] },
+ *     initial: ["draft"],
+ *     guard: ({ to, context }) => to !== "published" || context.clientId === editorId,
+ *   },
+ * ])
+ * ```
+ *
+ * @param machines - The state machines.
+ * @returns The validation function.
+ */
+export function stateMachineValidator<State extends JSONObject>(
+  machines: readonly StateMachine<State>[]
+): ValidateFn<State> {
+  const checkers = machines.map((machine): [string, StateMachineChecker<State>] => [
+    machine.id,
+    createStateMachineChecker(machine),
+  ])
+
+  return (state, context) => {
+    for (const [id, check] of checkers) {
+      const rejection = check(state, context)
+      if (rejection) return { ...rejection, ruleId: id }
+    }
+    return true
+  }
+}
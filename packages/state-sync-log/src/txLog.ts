@@ -2,11 +2,10 @@ import * as Y from "yjs"
 import { type CheckpointRecord, pruneCheckpoints } from "./checkpoints"
 import { getFinalizedEpochAndCheckpoint } from "./checkpointUtils"
 import { ClientState } from "./clientState"
-import { JSONObject } from "./json"
 import { Op } from "./operations"
 import { SortedTxEntry } from "./SortedTxEntry"
-import { isTransactionInCheckpoint } from "./StateCalculator"
-import { TxRecord } from "./TxRecord"
+import { type CalculatedState, isTransactionInCheckpoint } from "./StateCalculator"
+import { TxMeta, TxRecord } from "./TxRecord"
 import { type TxTimestamp, type TxTimestampKey, txTimestampToKey } from "./txTimestamp"
 
 /**
@@ -19,11 +18,29 @@ export type TxKeyChanges = {
   deleted: readonly TxTimestampKey[]
 }
 
+/**
+ * Gets the timestamp the next tx emitted by this client would get (without advancing the clock).
+ */
+export function getNextTxTimestamp(
+  activeEpoch: number,
+  myClientId: string,
+  clientState: ClientState
+): TxTimestamp {
+  const clock = Math.max(clientState.localClock, clientState.stateCalculator.getMaxSeenClock()) + 1
+  return { epoch: activeEpoch, clock, clientId: myClientId, wallClock: Date.now() }
+}
+
 /**
  * Appends a new transaction to the log.
  *
  * @param originalKey - Optional reference to the original transaction key for re-emits.
  *                      Used by syncLog to preserve transactions missed by checkpoints.
+ * @param meta - Optional app metadata to attach to the transaction.
+ * @param seenClock - Highest clock of the txs from other clients the author had seen (preserved
+ *                    on re-emits), only stored when rebasing array indexes. Defaults to the
+ *                    highest one seen by this client.
+ * @param txTimestamp - Timestamp of the tx (e.g. the one it was previewed with). Defaults to the
+ *                      next timestamp of this client.
  */
 export function appendTx(
   ops: readonly Op[],
@@ -31,25 +48,28 @@ export function appendTx(
   activeEpoch: number,
   myClientId: string,
   clientState: ClientState,
-  originalKey?: TxTimestampKey
+  originalKey?: TxTimestampKey,
+  meta?: TxMeta,
+  seenClock?: number,
+  txTimestamp?: TxTimestamp
 ): TxTimestampKey {
-  const calc = clientState.stateCalculator
-
   // 1. Advance logical clock (Lamport) based on all seen traffic
-  const clock = Math.max(clientState.localClock, calc.getMaxSeenClock()) + 1
-  clientState.localClock = clock
+  const ts = txTimestamp ?? getNextTxTimestamp(activeEpoch, myClientId, clientState)
+  clientState.localClock = ts.clock
 
   // 2. Generate Key with WallClock for future pruning safety
-  const ts: TxTimestamp = {
-    epoch: activeEpoch,
-    clock,
-    clientId: myClientId,
-    wallClock: Date.now(),
-  }
   const key = txTimestampToKey(ts)
 
   // 3. Write to Yjs (Atomic)
   const record: TxRecord = { ops, originalTxKey: originalKey }
+  if (meta) {
+    record.meta = meta
+  }
+  // Only needed to find concurrent txs when rebasing array indexes
+  const calc = clientState.stateCalculator
+  if (calc.isRebasingArrayIndexes()) {
+    record.seenClock = seenClock ?? calc.getMaxSeenRemoteClock(myClientId)
+  }
   yTx.set(key, record)
 
   return key
@@ -86,7 +106,7 @@ function syncLog(
   }
 
   const toDelete: TxTimestampKey[] = []
-  const toReEmit: Array<{ originalKey: TxTimestampKey; tx: TxRecord }> = []
+  const toReEmit: Array<{ originalKey: TxTimestampKey; tx: TxRecord; seenClock: number }> = []
 
   // 1. Helper to decide what to do with each transaction
   const processEntry = (entry: SortedTxEntry): boolean => {
@@ -97,7 +117,11 @@ function syncLog(
 
     if (entry.txTimestamp.epoch <= finalizedEpoch) {
       // Not in checkpoint and still fresh - re-emit it to the active epoch
-      toReEmit.push({ originalKey: entry.dedupTxTimestampKey, tx: entry.txRecord })
+      toReEmit.push({
+        originalKey: entry.dedupTxTimestampKey,
+        tx: entry.txRecord,
+        seenClock: entry.txRecord.seenClock ?? entry.dedupTxTimestamp.clock - 1,
+      })
       toDelete.push(entry.txTimestampKey)
       return false // re-emitted
     }
@@ -129,8 +153,17 @@ function syncLog(
   }
 
   // 4. Re-emit missed transactions BEFORE pruning
-  for (const { originalKey, tx } of toReEmit) {
-    const newKey = appendTx(tx.ops, yTx, activeEpoch, myClientId, clientState, originalKey)
+  for (const { originalKey, tx, seenClock } of toReEmit) {
+    const newKey = appendTx(
+      tx.ops,
+      yTx,
+      activeEpoch,
+      myClientId,
+      clientState,
+      originalKey,
+      tx.meta,
+      seenClock
+    )
     calc.insertTx(newKey, yTx)
   }
 
@@ -153,7 +186,7 @@ export function updateState(
   myClientId: string,
   clientState: ClientState,
   txChanges: TxKeyChanges | undefined
-): { state: JSONObject; getAppliedOps: () => readonly Op[] } {
+): CalculatedState {
   const calc = clientState.stateCalculator
 
   // Always calculate fresh finalized epoch and checkpoint to handle sync race conditions
@@ -0,0 +1,53 @@
+import type * as Y from "yjs"
+import { isTransactionInCheckpoint, type StateCalculator } from "./StateCalculator"
+import { TxRecord } from "./TxRecord"
+import { parseTxTimestampKey, type TxTimestampKey } from "./txTimestamp"
+
+/**
+ * Lifecycle status of a tx.
+ * - pending: the tx is in the log but has not been processed into the state yet.
+ * - applied: the tx is applied to the current state (may still change until finalized).
+ * - rejected: the tx was rejected (failed to apply or failed validation) in the current state.
+ * - finalized: the tx is covered by the finalized checkpoint, so its outcome can no longer change.
+ * - unknown: the tx is not known to this client (never received, or pruned without being finalized).
+ */
+export type TxStatus = "pending" | "applied" | "rejected" | "finalized" | "unknown"
+
+/**
+ * A tx status after which the tx is not expected to progress anymore.
+ */
+export type SettledTxStatus = Extract<TxStatus, "rejected" | "finalized" | "unknown">
+
+/**
+ * Returns true if the status is a settled one.
+ */
+export function isSettledTxStatus(status: TxStatus): status is SettledTxStatus {
+  return status === "rejected" || status === "finalized" || status === "unknown"
+}
+
+/**
+ * Computes the status of a logical tx.
+ *
+ * @param txKey - The key returned by emit (the original key for re-emitted txs).
+ */
+export function computeTxStatus(
+  txKey: TxTimestampKey,
+  yTx: Y.Map<TxRecord>,
+  calc: StateCalculator
+): TxStatus {
+  const watermarks = calc.getBaseCheckpoint()?.watermarks
+  if (watermarks && isTransactionInCheckpoint(parseTxTimestampKey(txKey), watermarks)) {
+    return "finalized"
+  }
+
+  const result = calc.getTxResult(txKey)
+  if (result) {
+    return result
+  }
+
+  if (yTx.has(txKey) || calc.hasTx(txKey)) {
+    return "pending"
+  }
+
+  return "unknown"
+}
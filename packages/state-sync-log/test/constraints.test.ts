@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyTxImmutable } from "../src/draft"
+import {
+  type Constraint,
+  constraintsValidator,
+  createStateSyncLog,
+  type Op,
+  type ValidationContext,
+} from "../src/index"
+
+type Task = { id: string; columnId: string | null; status: "todo" | "doing" | "done" }
+type State = { tasks: Task[]; columns: { [id: string]: { title: string } } }
+
+const constraints: Constraint[] = [
+  { kind: "unique", id: "taskIds", collection: "/tasks", key: "id" },
+  {
+    kind: "foreignKey",
+    id: "taskColumn",
+    collection: "/tasks",
+    field: "columnId",
+    references: "/columns",
+  },
+  {
+    kind: "cardinality",
+    id: "wipLimit",
+    collection: ["tasks"],
+    where: { status: "doing" },
+    max: 2,
+  },
+  { kind: "cardinality", id: "columnSize", collection: "/tasks", groupBy: "columnId", max: 3 },
+]
+
+const initialState: State = {
+  tasks: [
+    { id: "t1", columnId: "c1", status: "todo" },
+    { id: "t2", columnId: "c1", status: "doing" },
+    { id: "t3", columnId: null, status: "todo" },
+  ],
+  columns: { c1: { title: "Todo" }, c2: { title: "Done" } },
+}
+
+function createLog() {
+  const log = createStateSyncLog<State>({
+    yDoc: new Y.Doc(),
+    retentionWindowMs: undefined,
+    validate: constraintsValidator(constraints),
+  })
+  log.emit([{ kind: "replace", value: initialState }])
+  return log
+}
+
+describe("constraintsValidator", () => {
+  it("accepts states that satisfy the constraints", () => {
+    const log = createLog()
+    expect(log.getState()).toStrictEqual(initialState)
+
+    log.emit([{ kind: "set", path: ["tasks", 2], key: "columnId", value: "c1" }])
+    log.emit([{ kind: "delete", path: ["columns"], key: "c2" }])
+    expect(log.getState().columns).toStrictEqual({ c1: { title: "Todo" } })
+  })
+
+  it("enforces unique keys", () => {
+    const log = createLog()
+    const { txKey } = log.emit([
+      {
+        kind: "splice",
+        path: ["tasks"],
+        index: 3,
+        deleteCount: 0,
+        inserts: [{ id: "t1", columnId: null, status: "todo" }],
+      },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "taskIds",
+      message: 'Duplicate id "t1"',
+      path: ["tasks", 3, "id"],
+    })
+  })
+
+  it("enforces foreign keys", () => {
+    const log = createLog()
+    const { txKey } = log.emit([
+      { kind: "set", path: ["tasks", 0], key: "columnId", value: "missing" },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "taskColumn",
+      message: 'columnId "missing" does not reference an existing element',
+      path: ["tasks", 0, "columnId"],
+    })
+
+    // Deleting a referenced column would orphan its tasks
+    const { txKey: txKey2 } = log.emit([{ kind: "delete", path: ["columns"], key: "c1" }])
+    expect(log.getTxRejection(txKey2)).toMatchObject({
+      ruleId: "taskColumn",
+      path: ["tasks", 0, "columnId"],
+    })
+  })
+
+  it("enforces cardinality limits", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: ["tasks", 0], key: "status", value: "doing" }])
+    const { txKey } = log.emit([{ kind: "set", path: ["tasks", 2], key: "status", value: "doing" }])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "wipLimit",
+      message: "Must have at most 2 elements (has 3)",
+      path: ["tasks"],
+    })
+
+    const { txKey: txKey2 } = log.emit([
+      { kind: "set", path: ["tasks", 2], key: "columnId", value: "c1" },
+      {
+        kind: "splice",
+        path: ["tasks"],
+        index: 0,
+        deleteCount: 0,
+        inserts: [{ id: "t4", columnId: "c1", status: "todo" }],
+      },
+    ])
+    expect(log.getTxRejection(txKey2)).toStrictEqual({
+      kind: "validation",
+      ruleId: "columnSize",
+      message: 'Must have at most 3 elements with columnId "c1" (has 4)',
+      path: ["tasks", 0, "columnId"],
+    })
+  })
+
+  it("enforces minimum cardinalities", () => {
+    const validate = constraintsValidator<State>([
+      { kind: "cardinality", id: "columns", collection: "/columns", min: 1 },
+    ])
+    const ops: Op[] = [{ kind: "set", path: [], key: "columns", value: {} }]
+    const context = { prevState: initialState, ops } as unknown as ValidationContext<State>
+    expect(validate(initialState, { ...context, ops: [] })).toBe(true)
+    expect(validate({ ...initialState, columns: {} }, context)).toStrictEqual({
+      ruleId: "columns",
+      message: "Must have at least 1 elements (has 0)",
+      path: ["columns"],
+    })
+  })
+
+  it("matches references against a field of the referenced elements", () => {
+    type ListState = { owners: { name: string }[]; pets: { owner: string }[] }
+    const validate = constraintsValidator<ListState>([
+      {
+        kind: "foreignKey",
+        id: "petOwner",
+        collection: "/pets",
+        field: "owner",
+        references: "/owners",
+        referencesKey: "name",
+        message: "Unknown owner",
+      },
+    ])
+    const prevState: ListState = { owners: [{ name: "ann" }], pets: [] }
+    const ops: Op[] = [{ kind: "set", path: [], key: "pets", value: [] }]
+    const context = { prevState, ops } as unknown as ValidationContext<ListState>
+    expect(validate({ ...prevState, pets: [{ owner: "ann" }] }, context)).toBe(true)
+    expect(validate({ ...prevState, pets: [{ owner: "bob" }] }, context)).toStrictEqual({
+      ruleId: "petOwner",
+      message: "Unknown owner",
+      path: ["pets", 0, "owner"],
+    })
+  })
+
+  it("rejects cardinality constraints without limits", () => {
+    expect(() =>
+      constraintsValidator([{ kind: "cardinality", id: "none", collection: "/tasks" }])
+    ).toThrow('Cardinality constraint "none" must set "min" and/or "max"')
+  })
+
+  it("matches a full check after every tx", () => {
+    // Deterministic pseudo random numbers
+    let seed = 42
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return seed % n
+    }
+    const statuses = ["todo", "doing", "done"] as const
+    const columnIds = ["c1", "c2", "c3", null]
+
+    const randomOp = (state: State): Op => {
+      const taskCount = state.tasks.length
+      switch (random(taskCount > 0 ? 6 : 2)) {
+        case 0:
+          return {
+            kind: "splice",
+            path: ["tasks"],
+            index: random(taskCount + 1),
+            deleteCount: 0,
+            inserts: [
+              {
+                id: `t${random(8)}`,
+                columnId: columnIds[random(4)],
+                status: statuses[random(3)],
+              },
+            ],
+          }
+        case 1: {
+          const id = columnIds[random(3)]!
+          return random(2) === 0 || !state.columns[id]
+            ? { kind: "set", path: ["columns"], key: id, value: { title: id } }
+            : { kind: "delete", path: ["columns"], key: id }
+        }
+        case 2:
+          return {
+            kind: "splice",
+            path: ["tasks"],
+            index: random(taskCount),
+            deleteCount: 1,
+            inserts: [],
+          }
+        case 3:
+          return {
+            kind: "set",
+            path: ["tasks", random(taskCount)],
+            key: "status",
+            value: statuses[random(3)],
+          }
+        case 4:
+          return {
+            kind: "set",
+            path: ["tasks", random(taskCount)],
+            key: "columnId",
+            value: columnIds[random(4)],
+          }
+        default:
+          return {
+            kind: "set",
+            path: ["tasks", random(taskCount)],
+            key: "id",
+            value: `t${random(8)}`,
+          }
+      }
+    }
+
+    const validate = constraintsValidator<State>(constraints)
+    let state: State = { tasks: [], columns: {} }
+    for (let i = 0; i < 300; i++) {
+      const ops = Array.from({ length: 1 + random(2) }, () => randomOp(state))
+      const next = applyTxImmutable(state, { ops })
+      const context = { prevState: state, ops } as unknown as ValidationContext<State>
+      expect(validate(next, context)).toStrictEqual(
+        constraintsValidator(constraints)(next, context)
+      )
+      // Invalid states are kept too, since they must not change the outcome either
+      state = next
+    }
+  })
+})
@@ -83,6 +83,13 @@ describe("Controller API", () => {
     expect(() => log.getActiveEpochTxCount()).toThrow(errMsg)
     expect(() => log.getActiveEpochStartTime()).toThrow(errMsg)
     expect(() => log.isLogEmpty()).toThrow(errMsg)
+    expect(() => log.getTxStatus("0;1;A;0")).toThrow(errMsg)
+    expect(() => log.getTxRejection("0;1;A;0")).toThrow(errMsg)
+    expect(() => log.whenTxSettled("0;1;A;0")).toThrow(errMsg)
+    expect(() => log.getPendingLocalTxs()).toThrow(errMsg)
+    expect(() => log.getHistory()).toThrow(errMsg)
+    expect(() => log.getStateAt("0;1;A;0")).toThrow(errMsg)
+    expect(() => log.getStateAtTime(0)).toThrow(errMsg)
     expect(() => log[getSortedTxsSymbol]()).toThrow(errMsg)
   })
 
@@ -6,11 +6,15 @@
 import { describe, expect, test } from "vitest"
 import {
   addToSet,
+  copy,
   createOps,
   current,
   deleteFromSet,
+  increment,
   isDraft,
   isDraftable,
+  move,
+  type Op,
   original,
 } from "../../src/createOps"
 import { getProxyDraft } from "../../src/createOps/utils"
@@ -592,3 +596,280 @@ describe("aliasCount tracking", () => {
     })
   })
 })
+
+describe("increment()", () => {
+  test("generates an increment op", () => {
+    const state = { votes: { a: 1 } as Record<string, number>, stock: 1 }
+    const { nextState, ops } = createOps(state, (draft) => {
+      increment(draft.votes, "a", 2)
+      increment(draft.votes, "b", 1)
+      increment(draft, "stock", -5, { min: 0 })
+    })
+
+    expect(nextState).toEqual({ votes: { a: 3, b: 1 }, stock: 0 })
+    expect(ops).toEqual([
+      { kind: "increment", path: ["votes"], key: "a", by: 2 },
+      { kind: "increment", path: ["votes"], key: "b", by: 1 },
+      { kind: "increment", path: [], key: "stock", by: -5, min: 0 },
+    ])
+  })
+
+  test("throws on non-number values", () => {
+    const state = { title: "x" }
+    expect(() =>
+      createOps(state, (draft) => {
+        increment(draft, "title", 1)
+      })
+    ).toThrow(/increment\(\) requires a number/)
+  })
+})
+
+describe("move() / copy()", () => {
+  test("move within an array generates a single move op", () => {
+    const state = { list: ["a", "b", "c"] }
+    const { nextState, ops } = createOps(state, (draft) => {
+      move(draft.list, 0, draft.list, 2)
+    })
+
+    expect(nextState.list).toEqual(["b", "c", "a"])
+    expect(ops).toEqual([{ kind: "move", fromPath: ["list"], fromKey: 0, path: ["list"], key: 2 }])
+    expect(state.list).toEqual(["a", "b", "c"])
+  })
+
+  test("move between containers and keep editing the moved value", () => {
+    const state = {
+      columns: { todo: [{ id: 1, title: "a" }], done: [] as { id: number; title: string }[] },
+    }
+    const { nextState, ops } = createOps(state, (draft) => {
+      const card = draft.columns.todo[0]
+      move(draft.columns.todo, 0, draft.columns.done, 0)
+      card.title = "A"
+    })
+
+    expect(nextState).toEqual({ columns: { todo: [], done: [{ id: 1, title: "A" }] } })
+    expect(ops).toEqual([
+      {
+        kind: "move",
+        fromPath: ["columns", "todo"],
+        fromKey: 0,
+        path: ["columns", "done"],
+        key: 0,
+      },
+      { kind: "set", path: ["columns", "done", 0], key: "title", value: "A" },
+    ])
+
+    const target = structuredClone(state)
+    applyOps(ops, target)
+    expect(target).toEqual(nextState)
+  })
+
+  test("copy into an object generates a copy op with an independent value", () => {
+    const state = {
+      templates: { t: { title: "" } },
+      boards: {} as Record<string, { title: string }>,
+    }
+    const { nextState, ops } = createOps(state, (draft) => {
+      copy(draft.templates, "t", draft.boards, "b1")
+    })
+
+    expect(nextState).toEqual({ templates: { t: { title: "" } }, boards: { b1: { title: "" } } })
+    expect(nextState.boards.b1).not.toBe(nextState.templates.t)
+    expect(ops).toEqual([
+      { kind: "copy", fromPath: ["templates"], fromKey: "t", path: ["boards"], key: "b1" },
+    ])
+  })
+
+  test("throws when the source is gone", () => {
+    const state = { a: {} as Record<string, number>, list: [] as number[] }
+    expect(() =>
+      createOps(state, (draft) => {
+        move(draft.a, "missing", draft.a, "b")
+      })
+    ).toThrow(/move\(\) source property "missing" does not exist/)
+    expect(() =>
+      createOps(state, (draft) => {
+        copy(draft.list, 0, draft.list, 0)
+      })
+    ).toThrow(/copy\(\) source index 0 out of bounds/)
+  })
+
+  test("throws when moving a value into itself", () => {
+    const state = { a: { b: {} } }
+    expect(() =>
+      createOps(state, (draft) => {
+        move(draft, "a", draft.a.b, "a")
+      })
+    ).toThrow(/Cannot move a value into itself/)
+  })
+})
+
+describe("generateTests option", () => {
+  test("generates tests for the primitive values read before the ops", () => {
+    const state = { task: { status: "todo", owner: null as string | null, title: "t" } }
+    const { nextState, ops } = createOps(
+      state,
+      (draft) => {
+        if (draft.task.status === "todo" && draft.task.owner === null) {
+          draft.task.owner = "me"
+          draft.task.status = "doing"
+        }
+      },
+      { generateTests: true }
+    )
+
+    expect(nextState.task).toEqual({ status: "doing", owner: "me", title: "t" })
+    expect(ops).toEqual([
+      { kind: "test", path: ["task"], key: "status", value: "todo" },
+      { kind: "test", path: ["task"], key: "owner", value: null },
+      { kind: "set", path: ["task"], key: "owner", value: "me" },
+      { kind: "set", path: ["task"], key: "status", value: "doing" },
+    ])
+  })
+
+  test("generates tests for keys read while missing", () => {
+    const state: { users: Record<string, { name: string }> } = { users: {} }
+    const { ops } = createOps(
+      state,
+      (draft) => {
+        if (!draft.users.u1) {
+          draft.users.u1 = { name: "a" }
+        }
+      },
+      { generateTests: true }
+    )
+
+    expect(ops).toEqual([
+      { kind: "test", path: ["users"], key: "u1", exists: false },
+      { kind: "set", path: ["users"], key: "u1", value: { name: "a" } },
+    ])
+  })
+
+  test("does not generate tests for values written by the recipe", () => {
+    const state = { count: 1, list: [1] }
+    const { ops } = createOps(
+      state,
+      (draft) => {
+        draft.count = 2
+        draft.list.push(draft.count)
+        draft.list.push(draft.list.length)
+      },
+      { generateTests: true }
+    )
+
+    expect(ops.filter((op) => op.kind === "test")).toEqual([])
+  })
+
+  test("uses base state paths for values read after a move", () => {
+    const state = { a: [{ v: 1 }], b: [] as { v: number }[] }
+    const { ops } = createOps(
+      state,
+      (draft) => {
+        const item = draft.a[0]
+        move(draft.a, 0, draft.b, 0)
+        draft.b[0].v = item.v + 1
+      },
+      { generateTests: true }
+    )
+
+    expect(ops).toEqual([
+      { kind: "test", path: ["a", 0], key: "v", value: 1 },
+      { kind: "move", fromPath: ["a"], fromKey: 0, path: ["b"], key: 0 },
+      { kind: "set", path: ["b", 0], key: "v", value: 2 },
+    ])
+  })
+
+  test("returns no ops when nothing changes", () => {
+    const state = { a: 1 }
+    const { ops } = createOps(
+      state,
+      (draft) => {
+        void draft.a
+      },
+      { generateTests: true }
+    )
+
+    expect(ops).toEqual([])
+  })
+
+  test("does not generate tests by default", () => {
+    const state = { a: 1, b: 1 }
+    const { ops } = createOps(state, (draft) => {
+      draft.b = draft.a + 1
+    })
+
+    expect(ops).toEqual([{ kind: "set", path: [], key: "b", value: 2 }])
+  })
+})
+
+describe("returning a new state", () => {
+  test("generates a replace op", () => {
+    const state = { a: 1 }
+    const { nextState, ops } = createOps(state, () => ({ b: 2 }) as any)
+
+    expect(nextState).toEqual({ b: 2 })
+    expect(ops).toEqual([{ kind: "replace", value: { b: 2 } }])
+  })
+
+  test("unwraps drafts in the returned value", () => {
+    const state = { a: { x: 1 } }
+    const { ops } = createOps(state, (draft) => ({ b: draft.a }) as any)
+
+    expect(ops).toEqual([{ kind: "replace", value: { b: { x: 1 } } }])
+  })
+
+  test("throws when returning a primitive", () => {
+    expect(() => createOps({ a: 1 }, () => 5 as any)).toThrow(
+      "createOps() can only replace the state with a plain object or array."
+    )
+  })
+})
+
+describe("idKey option", () => {
+  test("addresses array elements by id in paths", () => {
+    const state = {
+      tasks: [
+        { id: "t1", status: "todo", tags: [] as string[] },
+        { id: "t2", status: "todo", tags: [] as string[] },
+      ],
+    }
+    const { nextState, ops } = createOps(
+      state,
+      (draft) => {
+        draft.tasks[1].status = "done"
+        draft.tasks[0].tags.push("x")
+      },
+      { idKey: "id" }
+    )
+
+    expect(nextState.tasks[1].status).toBe("done")
+    expect(ops).toEqual([
+      { kind: "set", path: ["tasks", { id: "t2" }], key: "status", value: "done" },
+      {
+        kind: "splice",
+        path: ["tasks", { id: "t1" }, "tags"],
+        index: 0,
+        deleteCount: 0,
+        inserts: ["x"],
+      },
+    ])
+  })
+
+  test("falls back to indexes for elements without a unique id", () => {
+    const state: { list: any[] } = { list: [{ id: 1 }, { id: 1 }, { name: "x" }] }
+    const { ops } = createOps(
+      state,
+      (draft) => {
+        draft.list[0].v = 1
+        draft.list[1].v = 1
+        draft.list[2].v = 1
+      },
+      { idKey: "id" }
+    )
+
+    expect(ops.map((op) => (op as Extract<Op, { kind: "set" }>).path)).toEqual([
+      ["list", { id: 1 }],
+      ["list", 1],
+      ["list", 2],
+    ])
+  })
+})
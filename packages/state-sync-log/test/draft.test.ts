@@ -1,6 +1,18 @@
 import { describe, expect, it } from "vitest"
-import { applyOpToDraft, applyTxImmutable, createDraft, isDraftModified } from "../src/draft"
-import type { Op } from "../src/operations"
+import {
+  applyOpToDraft,
+  applyTxImmutable,
+  createDraft,
+  isDraftModified,
+  tryApplyTxImmutable,
+} from "../src/draft"
+import type { Op, ValidateFn } from "../src/operations"
+
+const withValidator = (validateFn: ValidateFn<any>) => ({
+  validateFn,
+  txKey: "0;1;a;0",
+  txTimestamp: { epoch: 0, clock: 1, clientId: "a", wallClock: 0 },
+})
 
 describe("draft", () => {
   describe("basics", () => {
@@ -110,12 +122,80 @@ describe("draft", () => {
         ops: [{ kind: "addToSet", path: ["set"], value: { id: 1 } }],
         expected: { set: [{ id: 1 }] },
       },
+      // Increment
+      {
+        desc: "increments a number",
+        base: { n: 1 },
+        ops: [{ kind: "increment", path: [], key: "n", by: 2, max: 2 }],
+        expected: { n: 2 },
+      },
+      // Update where
+      {
+        desc: "updates matching elements",
+        base: { l: [{ done: true }, { done: false }] },
+        ops: [{ kind: "updateWhere", path: ["l"], where: { done: true }, set: { archived: true } }],
+        expected: { l: [{ done: true, archived: true }, { done: false }] },
+      },
+      // String splice
+      {
+        desc: "splices a string",
+        base: { s: "hello world" },
+        ops: [{ kind: "stringSplice", path: [], key: "s", index: 0, deleteCount: 5, insert: "hi" }],
+        expected: { s: "hi world" },
+      },
       {
         desc: "removes from set",
         base: { set: [1, 2] },
         ops: [{ kind: "deleteFromSet", path: ["set"], value: 1 }],
         expected: { set: [2] },
       },
+      // Element selectors
+      {
+        desc: "sets a key through an element selector",
+        base: {
+          list: [
+            { id: "a", v: 1 },
+            { id: "b", v: 1 },
+          ],
+        },
+        ops: [{ kind: "set", path: ["list", { id: "b" }], key: "v", value: 2 }],
+        expected: {
+          list: [
+            { id: "a", v: 1 },
+            { id: "b", v: 2 },
+          ],
+        },
+      },
+      {
+        desc: "splices an array nested in a selected element",
+        base: { list: [{ id: 1, tags: [] }] },
+        ops: [
+          {
+            kind: "splice",
+            path: ["list", { id: 1 }, "tags"],
+            index: 0,
+            deleteCount: 0,
+            inserts: ["x"],
+          },
+        ],
+        expected: { list: [{ id: 1, tags: ["x"] }] },
+      },
+      // Replace
+      {
+        desc: "replaces the root",
+        base: { a: 1 },
+        ops: [{ kind: "replace", value: { b: { c: 2 } } }],
+        expected: { b: { c: 2 } },
+      },
+      {
+        desc: "replaces the root with an array and keeps editing it",
+        base: { a: 1 },
+        ops: [
+          { kind: "replace", value: [{ x: 1 }] },
+          { kind: "set", path: [0], key: "x", value: 2 },
+        ],
+        expected: [{ x: 2 }],
+      },
     ] as { desc: string; base: any; ops: Op[]; expected: any }[])("$desc", ({
       base,
       ops,
@@ -161,6 +241,41 @@ describe("draft", () => {
       expect(result.items[0]).toBe(obj1)
       expect(result.items[2]).toBe(obj2)
     })
+
+    it("moves values without cloning them", () => {
+      const card = { id: 1 }
+      const base = { todo: [card], done: [], other: {} }
+      const result = applyTxImmutable(base, {
+        ops: [{ kind: "move", fromPath: ["todo"], fromKey: 0, path: ["done"], key: 0 }],
+      }) as any
+
+      expect(result).toStrictEqual({ todo: [], done: [{ id: 1 }], other: {} })
+      expect(result.done[0]).toBe(card)
+      expect(result.other).toBe(base.other)
+    })
+
+    it("copies unchanged values by reference", () => {
+      const base = { a: { x: { deep: 1 } }, b: {} }
+      const result = applyTxImmutable(base, {
+        ops: [{ kind: "copy", fromPath: [], fromKey: "a", path: ["b"], key: "a" }],
+      }) as any
+
+      expect(result.b.a).toBe(base.a)
+    })
+
+    it("does not share values modified in the same tx between copies", () => {
+      const base = { a: { x: { deep: 1 } } }
+      const result = applyTxImmutable(base, {
+        ops: [
+          { kind: "set", path: ["a", "x"], key: "deep", value: 2 },
+          { kind: "copy", fromPath: [], fromKey: "a", path: [], key: "b" },
+          { kind: "set", path: ["b", "x"], key: "deep", value: 3 },
+        ],
+      }) as any
+
+      expect(result).toStrictEqual({ a: { x: { deep: 2 } }, b: { x: { deep: 3 } } })
+      expect(base.a.x.deep).toBe(1)
+    })
   })
 
   describe("error handling & validation", () => {
@@ -179,6 +294,19 @@ describe("draft", () => {
         ops: [{ kind: "splice", path: ["obj"], index: 0, deleteCount: 0, inserts: [] }],
         base: { obj: {} },
       },
+      {
+        name: "move from a missing source",
+        ops: [{ kind: "move", fromPath: [], fromKey: "missing", path: [], key: "b" }],
+      },
+      {
+        name: "copy from a missing source container",
+        ops: [{ kind: "copy", fromPath: ["missing"], fromKey: "x", path: [], key: "b" }],
+      },
+      {
+        name: "move into itself",
+        ops: [{ kind: "move", fromPath: [], fromKey: "obj", path: ["obj"], key: "self" }],
+        base: { obj: {} },
+      },
       {
         name: "transaction failure",
         ops: [
@@ -208,7 +336,7 @@ describe("draft", () => {
       const result = applyTxImmutable(
         base,
         { ops: [{ kind: "set", path: [], key: "count", value: 10 }] },
-        (state: any) => state.count < 5 // Validation: must be < 5
+        withValidator((state: any) => state.count < 5) // Validation: must be < 5
       )
       expect(result).toBe(base)
     })
@@ -220,6 +348,93 @@ describe("draft", () => {
     })
   })
 
+  describe("rejection reasons", () => {
+    it("reports no rejection when applied", () => {
+      const result = tryApplyTxImmutable(
+        { a: 1 },
+        { ops: [{ kind: "set", path: [], key: "a", value: 2 }] }
+      )
+      expect(result.state).toStrictEqual({ a: 2 })
+      expect(result.rejection).toBeUndefined()
+    })
+
+    it("reports op errors with the failing op index", () => {
+      const base = { a: 1 }
+      const result = tryApplyTxImmutable(base, {
+        ops: [
+          { kind: "set", path: [], key: "b", value: 2 },
+          { kind: "set", path: ["missing"], key: "c", value: 3 },
+        ],
+      })
+      expect(result.state).toBe(base)
+      expect(result.rejection).toMatchObject({
+        kind: "error",
+        message: 'Property "missing" does not exist',
+        opIndex: 1,
+      })
+    })
+
+    it("reports failed test ops with the failing op index", () => {
+      const base = { a: 1 }
+      const result = tryApplyTxImmutable(base, {
+        ops: [
+          { kind: "set", path: [], key: "b", value: 2 },
+          { kind: "test", path: [], key: "a", value: 2 },
+        ],
+      })
+      expect(result.state).toBe(base)
+      expect(result.rejection).toStrictEqual({
+        kind: "test",
+        message: 'Test failed: ["a"] does not have the expected value',
+        opIndex: 1,
+      })
+    })
+
+    it("reports a plain validation failure", () => {
+      const base = { count: 1 }
+      const result = tryApplyTxImmutable(
+        base,
+        { ops: [{ kind: "set", path: [], key: "count", value: 10 }] },
+        withValidator((state: any) => state.count < 5)
+      )
+      expect(result.state).toBe(base)
+      expect(result.rejection).toStrictEqual({ kind: "validation" })
+    })
+
+    it("reports validation rejection details", () => {
+      const base = { count: 1 }
+      const result = tryApplyTxImmutable(
+        base,
+        { ops: [{ kind: "set", path: [], key: "count", value: 10 }] },
+        withValidator(
+          (state: any) =>
+            state.count < 5 || { ruleId: "maxCount", message: "too many", path: ["count"] }
+        )
+      )
+      expect(result.state).toBe(base)
+      expect(result.rejection).toStrictEqual({
+        kind: "validation",
+        ruleId: "maxCount",
+        message: "too many",
+        path: ["count"],
+      })
+    })
+
+    it("reports validator exceptions as errors without op index", () => {
+      const base = { count: 1 }
+      const error = new Error("boom")
+      const result = tryApplyTxImmutable(
+        base,
+        { ops: [{ kind: "set", path: [], key: "count", value: 10 }] },
+        withValidator(() => {
+          throw error
+        })
+      )
+      expect(result.state).toBe(base)
+      expect(result.rejection).toStrictEqual({ kind: "error", message: "boom", error })
+    })
+  })
+
   describe("set undefined vs delete distinction", () => {
     it("set with undefined keeps the key in state", () => {
       const base = { a: 1, b: 2 }
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, type Op } from "../src/index"
+
+describe("History", () => {
+  it("returns the txs in the log with their outcome", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      clientId: "A",
+      retentionWindowMs: undefined,
+      validate: (state) => state.count === undefined || state.count >= 0,
+    })
+
+    const { txKey: key1 } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }], {
+      meta: { label: "one" },
+    })
+    const { txKey: key2 } = log.emit([{ kind: "set", path: [], key: "count", value: -1 }])
+
+    const history = log.getHistory()
+    expect(history).toHaveLength(2)
+
+    expect(history[0]).toMatchObject({
+      txKey: key1,
+      dedupTxKey: key1,
+      clientId: "A",
+      ops: [{ kind: "set", path: [], key: "count", value: 1 }],
+      meta: { label: "one" },
+      outcome: "applied",
+      rejection: undefined,
+    })
+    expect(history[0].txTimestamp).toMatchObject({ epoch: 0, clientId: "A" })
+
+    expect(history[1]).toMatchObject({
+      txKey: key2,
+      outcome: "rejected",
+      rejection: { kind: "validation" },
+    })
+  })
+
+  it("reports re-emits of already processed txs as deduplicated", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    const { txKey } = logA.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    logB.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    logB.compact()
+
+    // Both clients re-emit A's tx after receiving the checkpoint
+    const docC = new Y.Doc()
+    Y.applyUpdate(docC, Y.encodeStateAsUpdate(docB))
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docC))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+
+    const history = logA.getHistory()
+    expect(history).toHaveLength(2)
+    expect(history.map((e) => e.dedupTxKey)).toStrictEqual([txKey, txKey])
+    expect(history.map((e) => e.clientId)).toStrictEqual(["A", "A"])
+    expect(history.map((e) => e.outcome)).toStrictEqual(["applied", "deduplicated"])
+    expect(logA.getState()).toStrictEqual({ a: 1, b: 2 })
+  })
+
+  it("filters by client", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    logA.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    logB.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+
+    expect(logA.getHistory()).toHaveLength(2)
+    expect(logA.getHistory({ clientId: "B" }).map((e) => e.ops[0])).toStrictEqual([
+      { kind: "set", path: [], key: "b", value: 2 },
+    ])
+  })
+
+  it("filters by time range", () => {
+    vi.useFakeTimers()
+    try {
+      const doc = new Y.Doc()
+      const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+      vi.setSystemTime(1000)
+      log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+      vi.setSystemTime(2000)
+      log.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+      vi.setSystemTime(3000)
+      log.emit([{ kind: "set", path: [], key: "c", value: 3 }])
+
+      const keys = (filter: { fromWallClock?: number; toWallClock?: number }) =>
+        log.getHistory(filter).map((e) => (e.ops[0] as { key: string }).key)
+
+      expect(keys({ fromWallClock: 2000 })).toStrictEqual(["b", "c"])
+      expect(keys({ toWallClock: 2000 })).toStrictEqual(["a", "b"])
+      expect(keys({ fromWallClock: 1500, toWallClock: 2500 })).toStrictEqual(["b"])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("filters by touched path", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [{ title: "a" }, { title: "b" }] }])
+    log.emit([{ kind: "set", path: ["tasks", 1], key: "title", value: "B" }])
+    log.emit([{ kind: "set", path: [], key: "other", value: 1 }])
+    log.emit([{ kind: "splice", path: ["tasks"], index: 0, deleteCount: 1, inserts: [] }])
+
+    const labels = log.getHistory({ path: ["tasks", 1] }).map((e) => {
+      const op = e.ops[0] as Extract<Op, { path: unknown }>
+      return `${op.kind}:${op.path.join(".")}`
+    })
+    // Replacing an ancestor, changing the value itself and splicing its array all touch the path
+    expect(labels).toStrictEqual(["set:", "set:tasks.1", "splice:tasks"])
+
+    expect(log.getHistory({ path: ["tasks", "0", "title"] })).toHaveLength(2)
+    expect(log.getHistory({ path: ["other"] })).toHaveLength(1)
+  })
+
+  it("filters by paths with element selectors", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [{ id: "a" }, { id: "b" }] }])
+    log.emit([{ kind: "set", path: ["tasks", { id: "a" }], key: "done", value: true }])
+    log.emit([{ kind: "set", path: ["tasks", { id: "b" }], key: "done", value: true }])
+    log.emit([{ kind: "set", path: ["tasks", 1], key: "title", value: "B" }])
+
+    // Selectors may refer to any index, but not to elements with other ids
+    expect(log.getHistory({ path: ["tasks", { id: "a" }] })).toHaveLength(3)
+    expect(log.getHistory({ path: ["tasks", 0] })).toHaveLength(3)
+    expect(log.getHistory({ path: ["tasks", { id: "c" }] })).toHaveLength(2)
+  })
+})
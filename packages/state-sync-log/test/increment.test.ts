@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyOps, createStateSyncLog, type Op } from "../src/index"
+
+function createClients(validate?: (state: any) => boolean) {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({
+    yDoc: docA,
+    clientId: "A",
+    retentionWindowMs: undefined,
+    validate,
+  })
+  const logB = createStateSyncLog<any>({
+    yDoc: docB,
+    clientId: "B",
+    retentionWindowMs: undefined,
+    validate,
+  })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+describe("increment", () => {
+  it.each([
+    {
+      desc: "increments an existing number",
+      base: { n: 1 },
+      op: { kind: "increment", path: [], key: "n", by: 2 },
+      expected: { n: 3 },
+    },
+    {
+      desc: "treats a missing key as 0",
+      base: {},
+      op: { kind: "increment", path: [], key: "n", by: -2 },
+      expected: { n: -2 },
+    },
+    {
+      desc: "clamps to min",
+      base: { n: 1 },
+      op: { kind: "increment", path: [], key: "n", by: -5, min: 0 },
+      expected: { n: 0 },
+    },
+    {
+      desc: "clamps to max",
+      base: { n: 8 },
+      op: { kind: "increment", path: [], key: "n", by: 5, max: 10 },
+      expected: { n: 10 },
+    },
+    {
+      desc: "increments an array element",
+      base: { list: [1, 2] },
+      op: { kind: "increment", path: ["list"], key: 1, by: 1 },
+      expected: { list: [1, 3] },
+    },
+  ] as {
+    desc: string
+    base: any
+    op: Extract<Op, { kind: "increment" }>
+    expected: any
+  }[])("$desc", ({ base, op, expected }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "root", value: base }])
+    log.emit([{ ...op, path: ["root", ...op.path] }])
+    expect(log.getState().root).toStrictEqual(expected)
+
+    const target = structuredClone(base)
+    applyOps([op], target)
+    expect(target).toStrictEqual(expected)
+  })
+
+  it.each([
+    { desc: "a non-number value", base: { n: "1" }, key: "n", by: 1 },
+    { desc: "a non-finite amount", base: { n: 1 }, key: "n", by: Number.NaN },
+    { desc: "an out of bounds array index", base: { list: [] }, key: 0, path: ["list"], by: 1 },
+  ])("rejects the tx on $desc", ({ base, key, by, path = [] }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "root", value: base }])
+
+    const { txKey } = log.emit([{ kind: "increment", path: ["root", ...path], key, by }])
+    expect(log.getTxRejection(txKey)).toMatchObject({ kind: "error", opIndex: 0 })
+    expect(log.getState().root).toStrictEqual(base)
+  })
+
+  it("adds up concurrent increments", () => {
+    const { logA, logB, sync } = createClients()
+
+    logA.emit([{ kind: "set", path: [], key: "votes", value: 0 }])
+    sync()
+    logA.emit([{ kind: "increment", path: [], key: "votes", by: 1 }])
+    logB.emit([{ kind: "increment", path: [], key: "votes", by: 1 }])
+    logB.emit([{ kind: "increment", path: [], key: "votes", by: 1 }])
+    sync()
+
+    expect(logA.getState()).toStrictEqual({ votes: 3 })
+    expect(logB.getState()).toStrictEqual({ votes: 3 })
+  })
+
+  it("validates the combined result", () => {
+    const { logA, logB, sync } = createClients((state) => (state.stock ?? 0) >= 0)
+
+    logA.emit([{ kind: "set", path: [], key: "stock", value: 1 }])
+    sync()
+    // Both clients take the last item
+    const { txKey: keyA } = logA.emit([{ kind: "increment", path: [], key: "stock", by: -1 }])
+    const { txKey: keyB } = logB.emit([{ kind: "increment", path: [], key: "stock", by: -1 }])
+    sync()
+
+    expect(logA.getState()).toStrictEqual({ stock: 0 })
+    expect(logB.getState()).toStrictEqual({ stock: 0 })
+    // Only the first one in log order succeeds
+    expect([logA.getTxStatus(keyA), logA.getTxStatus(keyB)].sort()).toStrictEqual([
+      "applied",
+      "rejected",
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  createStateSyncLog,
+  incrementalValidator,
+  type SubtreeValidator,
+  subtreeValidator,
+} from "../src/index"
+
+type Task = { title: string; votes: number }
+type State = { tasks?: Task[]; columns?: { [id: string]: string[] } }
+
+function createLog() {
+  const validated: Task[] = []
+  const validate = incrementalValidator<State>([
+    subtreeValidator<Task>({
+      path: "/tasks/*",
+      validate: (task) => {
+        validated.push(task)
+        return task.title !== "" || { message: "Empty title", path: ["title"] }
+      },
+    }),
+    { path: ["columns", "*"], validate: (column) => Array.isArray(column) && column.length <= 2 },
+  ])
+  const log = createStateSyncLog<State>({
+    yDoc: new Y.Doc(),
+    retentionWindowMs: undefined,
+    validate,
+  })
+  return { log, validated }
+}
+
+const tasks: Task[] = [
+  { title: "a", votes: 0 },
+  { title: "b", votes: 0 },
+  { title: "c", votes: 0 },
+]
+
+describe("incrementalValidator", () => {
+  it("only validates the subtrees that changed", () => {
+    const { log, validated } = createLog()
+    log.emit([{ kind: "set", path: [], key: "tasks", value: tasks }])
+    expect(validated).toHaveLength(3)
+
+    validated.length = 0
+    log.emit([{ kind: "increment", path: ["tasks", 1], key: "votes", by: 1 }])
+    expect(validated).toStrictEqual([{ title: "b", votes: 1 }])
+
+    validated.length = 0
+    log.emit([{ kind: "set", path: [], key: "columns", value: { todo: [] } }])
+    expect(validated).toStrictEqual([])
+  })
+
+  it("reports the path of the invalid value", () => {
+    const { log } = createLog()
+    log.emit([{ kind: "set", path: [], key: "tasks", value: tasks }])
+
+    const { txKey } = log.emit([{ kind: "set", path: ["tasks", 2], key: "title", value: "" }])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      message: "Empty title",
+      path: ["tasks", 2, "title"],
+    })
+
+    const { txKey: txKey2 } = log.emit([
+      { kind: "set", path: [], key: "columns", value: { todo: ["a"], doing: ["b", "c", "d"] } },
+    ])
+    expect(log.getTxRejection(txKey2)).toStrictEqual({
+      kind: "validation",
+      path: ["columns", "doing"],
+    })
+  })
+
+  it("reports memoized failures at their current path", () => {
+    const validate = incrementalValidator<State>([
+      subtreeValidator<Task>({ path: "/tasks/*", validate: (task) => task.votes >= 0 }),
+    ])
+    const invalid = { title: "x", votes: -1 }
+
+    expect(validate({ tasks: [invalid] }, undefined!)).toStrictEqual({ path: ["tasks", 0] })
+    expect(validate({ tasks: [tasks[0], invalid] }, undefined!)).toStrictEqual({
+      path: ["tasks", 1],
+    })
+  })
+
+  it("types the values of validators", () => {
+    const check = () => {
+      const jsonValidator: SubtreeValidator = {
+        path: "/tasks/*",
+        // @ts-expect-error values are JSON values unless declared
+        validate: (task) => task.votes >= 0,
+      }
+      const taskValidator = subtreeValidator<Task>({
+        path: "/tasks/*",
+        validate: (task) => task.votes >= 0,
+      })
+      subtreeValidator<Task>({
+        path: "/tasks/*",
+        // @ts-expect-error unknown field
+        validate: (task) => task.points >= 0,
+      })
+      return incrementalValidator<State>([jsonValidator, taskValidator])
+    }
+    expect(check).toBeTypeOf("function")
+  })
+
+  it("skips paths that do not exist", () => {
+    const { log } = createLog()
+    log.emit([{ kind: "set", path: [], key: "other", value: 1 }])
+    expect(log.getState()).toStrictEqual({ other: 1 })
+  })
+})
@@ -0,0 +1,226 @@
+import { applyPatch, type Operation } from "fast-json-patch"
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  applyOps,
+  createStateSyncLog,
+  type JsonPatchOperation,
+  jsonPatchToOps,
+  type Op,
+  opsToJsonPatch,
+} from "../src/index"
+
+describe("opsToJsonPatch", () => {
+  it.each([
+    {
+      desc: "object set",
+      op: { kind: "set", path: ["a"], key: "b/c", value: 1 },
+      patch: [{ op: "add", path: "/a/b~1c", value: 1 }],
+    },
+    {
+      desc: "array set",
+      op: { kind: "set", path: ["list"], key: 0, value: 1 },
+      patch: [{ op: "replace", path: "/list/0", value: 1 }],
+    },
+    {
+      desc: "delete",
+      op: { kind: "delete", path: [], key: "a~b" },
+      patch: [{ op: "remove", path: "/a~0b" }],
+    },
+    {
+      desc: "splice",
+      op: { kind: "splice", path: ["list"], index: 1, deleteCount: 2, inserts: ["x", "y"] },
+      patch: [
+        { op: "remove", path: "/list/1" },
+        { op: "remove", path: "/list/1" },
+        { op: "add", path: "/list/1", value: "x" },
+        { op: "add", path: "/list/2", value: "y" },
+      ],
+    },
+    {
+      desc: "move",
+      op: { kind: "move", fromPath: ["a"], fromKey: "x", path: ["b"], key: 0 },
+      patch: [{ op: "move", from: "/a/x", path: "/b/0" }],
+    },
+    {
+      desc: "test",
+      op: { kind: "test", path: [], key: "a", value: null },
+      patch: [{ op: "test", path: "/a", value: null }],
+    },
+    {
+      desc: "root replace",
+      op: { kind: "replace", value: { a: 1 } },
+      patch: [{ op: "replace", path: "", value: { a: 1 } }],
+    },
+  ] as { desc: string; op: Op; patch: JsonPatchOperation[] }[])("converts $desc", ({
+    op,
+    patch,
+  }) => {
+    expect(opsToJsonPatch([op])).toStrictEqual(patch)
+  })
+
+  it.each([
+    { kind: "addToSet", path: ["tags"], value: "a" },
+    { kind: "increment", path: [], key: "n", by: 1 },
+    { kind: "set", path: ["list"], key: "length", value: 0 },
+    { kind: "set", path: ["list", { id: "a" }], key: "done", value: true },
+    { kind: "test", path: [], key: "a", exists: true },
+    { kind: "delete", path: ["list"], key: 0 },
+  ] as Op[])("throws on ops with no equivalent ($kind)", (op) => {
+    expect(() => opsToJsonPatch([op])).toThrow("has no JSON Patch equivalent")
+  })
+
+  it.each([
+    {
+      desc: "sets of array elements given string keys",
+      ops: [{ kind: "set", path: ["list"], key: "1", value: "B" }],
+    },
+    {
+      desc: "sets appending to arrays",
+      ops: [
+        { kind: "set", path: ["list"], key: 2, value: "c" },
+        { kind: "set", path: ["list"], key: 3, value: "d" },
+      ],
+    },
+    {
+      desc: "object sets and deletes",
+      ops: [
+        { kind: "set", path: ["obj"], key: "x", value: 2 },
+        { kind: "set", path: ["obj"], key: "y", value: 3 },
+        { kind: "delete", path: ["obj"], key: "x" },
+      ],
+    },
+    {
+      desc: "splices out of range",
+      ops: [{ kind: "splice", path: ["list"], index: 1, deleteCount: 5, inserts: ["x", "y"] }],
+    },
+  ] as { desc: string; ops: Op[] }[])("matches JSON Patch semantics for $desc", ({ ops }) => {
+    const state = { list: ["a", "b"], obj: { x: 1 } }
+    const patch = opsToJsonPatch(ops, { state })
+
+    const patched = applyPatch(structuredClone(state), patch as Operation[]).newDocument
+    expect(patched).toStrictEqual(applyOps(ops, structuredClone(state)))
+  })
+
+  it("does not convert deletes of array elements given the state", () => {
+    const state = { list: ["a", "b"] }
+    const op: Op = { kind: "delete", path: ["list"], key: "0" }
+    expect(() => opsToJsonPatch([op], { state })).toThrow("has no JSON Patch equivalent")
+    expect(opsToJsonPatch([op], { state, extensions: true })).toStrictEqual([
+      { op: "x-op", path: "", value: op },
+    ])
+  })
+
+  it("exports ops with no equivalent as extensions", () => {
+    const op: Op = { kind: "addToSet", path: ["tags"], value: "a" }
+    expect(opsToJsonPatch([op], { extensions: true })).toStrictEqual([
+      { op: "x-op", path: "", value: op },
+    ])
+  })
+})
+
+describe("jsonPatchToOps", () => {
+  const state = { list: [{ title: "a" }, { title: "b" }], obj: { "x/y": 1 } }
+
+  it.each([
+    {
+      desc: "object add",
+      patch: [{ op: "add", path: "/obj/z", value: 2 }],
+      ops: [{ kind: "set", path: ["obj"], key: "z", value: 2 }],
+    },
+    {
+      desc: "array add",
+      patch: [{ op: "add", path: "/list/1", value: { title: "x" } }],
+      ops: [
+        { kind: "splice", path: ["list"], index: 1, deleteCount: 0, inserts: [{ title: "x" }] },
+      ],
+    },
+    {
+      desc: "array append",
+      patch: [{ op: "add", path: "/list/-", value: 1 }],
+      ops: [{ kind: "splice", path: ["list"], index: 2, deleteCount: 0, inserts: [1] }],
+    },
+    {
+      desc: "nested array replace",
+      patch: [{ op: "replace", path: "/list/0/title", value: "A" }],
+      ops: [{ kind: "set", path: ["list", 0], key: "title", value: "A" }],
+    },
+    {
+      desc: "remove",
+      patch: [
+        { op: "remove", path: "/obj/x~1y" },
+        { op: "remove", path: "/list/0" },
+      ],
+      ops: [
+        { kind: "delete", path: ["obj"], key: "x/y" },
+        { kind: "splice", path: ["list"], index: 0, deleteCount: 1, inserts: [] },
+      ],
+    },
+    {
+      desc: "move to the end of the same array",
+      patch: [{ op: "move", from: "/list/0", path: "/list/-" }],
+      ops: [{ kind: "move", fromPath: ["list"], fromKey: 0, path: ["list"], key: 1 }],
+    },
+    {
+      desc: "test",
+      patch: [{ op: "test", path: "/list/1/title", value: "z" }],
+      ops: [{ kind: "test", path: ["list", 1], key: "title", value: "z" }],
+    },
+    {
+      desc: "root replace",
+      patch: [{ op: "replace", path: "", value: [] }],
+      ops: [{ kind: "replace", value: [] }],
+    },
+    {
+      desc: "operations that depend on the previous ones",
+      patch: [
+        { op: "add", path: "/nested", value: { list: [] } },
+        { op: "add", path: "/nested/list/0", value: 1 },
+      ],
+      ops: [
+        { kind: "set", path: [], key: "nested", value: { list: [] } },
+        { kind: "splice", path: ["nested", "list"], index: 0, deleteCount: 0, inserts: [1] },
+      ],
+    },
+  ] as { desc: string; patch: JsonPatchOperation[]; ops: Op[] }[])("converts $desc", ({
+    patch,
+    ops,
+  }) => {
+    expect(jsonPatchToOps(patch, state)).toStrictEqual(ops)
+    // The state is not mutated
+    expect(state).toStrictEqual({ list: [{ title: "a" }, { title: "b" }], obj: { "x/y": 1 } })
+  })
+
+  it.each([
+    { desc: "a missing parent", patch: [{ op: "add", path: "/missing/a", value: 1 }] },
+    { desc: "a missing key", patch: [{ op: "remove", path: "/obj/missing" }] },
+    { desc: "an out of bounds index", patch: [{ op: "replace", path: "/list/2", value: 1 }] },
+    { desc: "an invalid index", patch: [{ op: "add", path: "/list/01", value: 1 }] },
+    { desc: "an invalid pointer", patch: [{ op: "remove", path: "list" }] },
+  ] as { desc: string; patch: JsonPatchOperation[] }[])("throws on $desc", ({ patch }) => {
+    expect(() => jsonPatchToOps(patch, state)).toThrow()
+  })
+
+  it("round-trips ops through JSON Patch", () => {
+    const ops: Op[] = [
+      { kind: "set", path: ["list", 1], key: "title", value: "B" },
+      { kind: "splice", path: ["list"], index: 0, deleteCount: 1, inserts: [{ title: "x" }] },
+      { kind: "addToSet", path: ["tags"], value: "a" },
+      { kind: "copy", fromPath: ["list"], fromKey: 1, path: [], key: "copy" },
+    ]
+    const base = { ...structuredClone(state), tags: [] }
+    const converted = jsonPatchToOps(opsToJsonPatch(ops, { extensions: true }), base)
+
+    const expected = applyOps(ops, structuredClone(base))
+    expect(applyOps(converted, structuredClone(base))).toStrictEqual(expected)
+  })
+
+  it("converts patches that can be emitted", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "list", value: [1, 2] }])
+
+    log.emit(jsonPatchToOps([{ op: "add", path: "/list/0", value: 0 }], log.getState()))
+    expect(log.getState()).toStrictEqual({ list: [0, 1, 2] })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  applyOps,
+  createStateSyncLog,
+  type JsonPointerOp,
+  type OpInput,
+  parseJsonPointer,
+  toJsonPointer,
+  toJsonPointerOp,
+} from "../src/index"
+
+describe("JSON Pointers", () => {
+  it.each([
+    { pointer: "", path: [] },
+    { pointer: "/tasks/3/status", path: ["tasks", "3", "status"] },
+    { pointer: "/a~1b/c~0d/~01", path: ["a/b", "c~d", "~1"] },
+    { pointer: "/", path: [""] },
+  ])("converts $pointer", ({ pointer, path }) => {
+    expect(parseJsonPointer(pointer)).toStrictEqual(path)
+    expect(toJsonPointer(path)).toBe(pointer)
+  })
+
+  it("converts numeric segments", () => {
+    expect(toJsonPointer(["tasks", 3])).toBe("/tasks/3")
+  })
+
+  it("throws on invalid pointers", () => {
+    expect(() => parseJsonPointer("tasks")).toThrow('Invalid JSON Pointer "tasks"')
+  })
+
+  it("throws on element selectors", () => {
+    expect(() => toJsonPointer(["tasks", { id: "a" }])).toThrow("cannot be converted")
+  })
+
+  it("applies ops with pointer paths", () => {
+    const state = { tasks: [{ status: "todo" }], "a/b": {} }
+    const ops: OpInput[] = [
+      { kind: "set", path: "/tasks/0", key: "status", value: "done" },
+      { kind: "set", path: "/a~1b", key: "x", value: 1 },
+      { kind: "copy", fromPath: "/tasks", fromKey: 0, path: ["tasks"], key: 1 },
+      { kind: "splice", path: "/tasks", index: 0, deleteCount: 1, inserts: [] },
+    ]
+    applyOps(ops, state)
+    expect(state).toStrictEqual({ tasks: [{ status: "done" }], "a/b": { x: 1 } })
+  })
+
+  it("emits ops with pointer paths as paths", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [{ status: "todo" }] }])
+    log.emit([{ kind: "set", path: "/tasks/0", key: "status", value: "done" }])
+
+    expect(log.getState()).toStrictEqual({ tasks: [{ status: "done" }] })
+    expect(log.getHistory()[1].ops).toStrictEqual([
+      { kind: "set", path: ["tasks", "0"], key: "status", value: "done" },
+    ])
+    expect(log.getHistory({ path: "/tasks/0/status" })).toHaveLength(2)
+  })
+
+  it("converts applied ops into pointer ops", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [{ status: "todo" }] }])
+
+    let pointerOps: JsonPointerOp[] = []
+    log.subscribe((_state, getAppliedOps) => {
+      pointerOps = getAppliedOps().map(toJsonPointerOp)
+    })
+    log.emit([
+      { kind: "set", path: ["tasks", 0], key: "status", value: "done" },
+      { kind: "move", fromPath: ["tasks"], fromKey: 0, path: [], key: "done" },
+    ])
+
+    expect(pointerOps).toStrictEqual([
+      { kind: "set", path: "/tasks/0", key: "status", value: "done" },
+      { kind: "move", fromPath: "/tasks", fromKey: 0, path: "", key: "done" },
+    ])
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  createStateSyncLog,
+  type JsonSchema,
+  jsonSchemaValidator,
+  validateJsonSchema,
+} from "../src/index"
+
+const schema: JsonSchema = {
+  type: "object",
+  required: ["tasks"],
+  additionalProperties: false,
+  properties: {
+    tasks: { type: "array", items: { $ref: "#/$defs/task" }, maxItems: 3 },
+    tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+  },
+  $defs: {
+    task: {
+      type: "object",
+      required: ["id", "title", "status"],
+      properties: {
+        id: { type: "string", pattern: "^t[0-9]+$" },
+        title: { type: "string", minLength: 1, maxLength: 10 },
+        status: { enum: ["todo", "doing", "done"] },
+        votes: { type: "integer", minimum: 0 },
+      },
+    },
+  },
+}
+
+const task = { id: "t1", title: "Write", status: "todo" }
+
+describe("validateJsonSchema", () => {
+  it("accepts valid values", () => {
+    expect(validateJsonSchema(schema, { tasks: [task], tags: ["a", "b"] })).toStrictEqual([])
+  })
+
+  it("reports every issue with its path", () => {
+    const value = {
+      tasks: [{ ...task, id: "x" }, { ...task, title: "", votes: 1.5 }, { id: "t3" }],
+      tags: ["a", "a"],
+      other: 1,
+    }
+    expect(validateJsonSchema(schema, value)).toStrictEqual([
+      { keyword: "pattern", message: 'must match pattern "^t[0-9]+$"', path: ["tasks", 0, "id"] },
+      {
+        keyword: "minLength",
+        message: "must not have fewer than 1 characters",
+        path: ["tasks", 1, "title"],
+      },
+      { keyword: "type", message: "must be integer", path: ["tasks", 1, "votes"] },
+      { keyword: "required", message: 'must have required property "title"', path: ["tasks", 2] },
+      { keyword: "required", message: 'must have required property "status"', path: ["tasks", 2] },
+      {
+        keyword: "uniqueItems",
+        message: "must not have duplicate items (items 0 and 1)",
+        path: ["tags"],
+      },
+      {
+        keyword: "additionalProperties",
+        message: 'must not have additional property "other"',
+        path: ["other"],
+      },
+    ])
+  })
+
+  it("ignores keys holding undefined", () => {
+    expect(validateJsonSchema(schema, { tasks: [], tags: undefined })).toStrictEqual([])
+    expect(validateJsonSchema(schema, { tasks: undefined })).toMatchObject([
+      { keyword: "required" },
+    ])
+  })
+
+  it("supports combinators", () => {
+    const idSchema: JsonSchema = {
+      oneOf: [{ type: "string" }, { type: "integer" }, { type: "number", multipleOf: 0.5 }],
+      not: { const: "root" },
+    }
+    expect(validateJsonSchema(idSchema, "a")).toStrictEqual([])
+    expect(validateJsonSchema(idSchema, 1.5)).toStrictEqual([])
+    expect(validateJsonSchema(idSchema, 2)).toStrictEqual([
+      {
+        keyword: "oneOf",
+        message: "must match exactly one schema in oneOf (matches 2)",
+        path: [],
+      },
+    ])
+    expect(validateJsonSchema(idSchema, "root")).toMatchObject([{ keyword: "not" }])
+    expect(validateJsonSchema({ anyOf: [{ type: "null" }, false] }, 1)).toMatchObject([
+      { keyword: "anyOf" },
+    ])
+  })
+
+  it("tolerates floating point errors in multipleOf", () => {
+    const priceSchema: JsonSchema = { type: "number", multipleOf: 0.01 }
+    expect(validateJsonSchema(priceSchema, 0.07)).toStrictEqual([])
+    expect(validateJsonSchema(priceSchema, 19.99)).toStrictEqual([])
+    expect(validateJsonSchema({ multipleOf: 0.1 }, 0.3)).toStrictEqual([])
+    expect(validateJsonSchema(priceSchema, 0.075)).toStrictEqual([
+      { keyword: "multipleOf", message: "must be a multiple of 0.01", path: [] },
+    ])
+  })
+
+  it("supports pattern properties and property names", () => {
+    const mapSchema: JsonSchema = {
+      type: "object",
+      propertyNames: { maxLength: 3 },
+      patternProperties: { "^n": { type: "number" } },
+      additionalProperties: { type: "string" },
+    }
+    expect(validateJsonSchema(mapSchema, { n1: 1, s1: "a" })).toStrictEqual([])
+    expect(validateJsonSchema(mapSchema, { n1: "1", s1: 1, long: "a" })).toMatchObject([
+      { keyword: "type", path: ["n1"] },
+      { keyword: "type", path: ["s1"] },
+      { keyword: "propertyNames", path: ["long"] },
+    ])
+  })
+
+  it("throws on refs that cannot be resolved", () => {
+    expect(() => validateJsonSchema({ $ref: "#/$defs/missing" }, 1)).toThrow(
+      'JSON Schema $ref "#/$defs/missing" does not exist'
+    )
+    expect(() => validateJsonSchema({ $ref: "https://example.com/schema.json" }, 1)).toThrow(
+      "only local refs"
+    )
+  })
+})
+
+describe("jsonSchemaValidator", () => {
+  it("rejects txs with the first issue", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: jsonSchemaValidator(schema),
+    })
+
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [task] }])
+    const { txKey } = log.emit([
+      { kind: "set", path: ["tasks", 0], key: "status", value: "blocked" },
+      { kind: "set", path: ["tasks", 0], key: "title", value: "" },
+    ])
+
+    expect(log.getState()).toStrictEqual({ tasks: [task] })
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "minLength",
+      message: "must not have fewer than 1 characters",
+      path: ["tasks", 0, "title"],
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, ops } from "../src/index"
+
+type Task = { id: string; title: string; status: "todo" | "doing"; votes: number; note?: string }
+
+type State = {
+  tasks: Task[]
+  tags: string[]
+  columns: { [id: string]: { title: string } }
+  meta?: { version: number }
+}
+
+const $ = ops<State>()
+
+describe("ops builder", () => {
+  it("builds plain ops", () => {
+    expect($.at("tasks", 0).set("status", "doing")).toStrictEqual({
+      kind: "set",
+      path: ["tasks", 0],
+      key: "status",
+      value: "doing",
+    })
+    expect($.at("tasks", { id: "t1" }).delete("note")).toStrictEqual({
+      kind: "delete",
+      path: ["tasks", { id: "t1" }],
+      key: "note",
+    })
+    expect($.at("tasks").at(1).increment("votes", 1, { min: 0 })).toStrictEqual({
+      kind: "increment",
+      path: ["tasks", 1],
+      key: "votes",
+      by: 1,
+      min: 0,
+    })
+    expect($.at("meta").testExists("version", true)).toStrictEqual({
+      kind: "test",
+      path: ["meta"],
+      key: "version",
+      exists: true,
+    })
+  })
+
+  it("builds array ops", () => {
+    expect($.at("tags").addToSet("a")).toStrictEqual({
+      kind: "addToSet",
+      path: ["tags"],
+      value: "a",
+    })
+    expect($.at("tasks").splice(0, 1)).toStrictEqual({
+      kind: "splice",
+      path: ["tasks"],
+      index: 0,
+      deleteCount: 1,
+      inserts: [],
+    })
+    expect(
+      $.at("tasks").updateWhere({ where: { status: "doing" }, set: { status: "todo" } })
+    ).toStrictEqual({
+      kind: "updateWhere",
+      path: ["tasks"],
+      where: { status: "doing" },
+      set: { status: "todo" },
+    })
+  })
+
+  it("builds moves between containers", () => {
+    expect($.at("tasks").move(0, $.at("tasks"), 2)).toStrictEqual({
+      kind: "move",
+      fromPath: ["tasks"],
+      fromKey: 0,
+      path: ["tasks"],
+      key: 2,
+    })
+  })
+
+  it("checks paths, keys and values at compile time", () => {
+    const check = () => [
+      // @ts-expect-error unknown key
+      $.at("taks", 0),
+      // @ts-expect-error wrong value type
+      $.at("tasks", 0).set("status", "done"),
+      // @ts-expect-error not a number field
+      $.at("tasks", 0).increment("title", 1),
+      // @ts-expect-error splice on an object
+      $.at("columns").splice(0, 1),
+      // @ts-expect-error wrong element type
+      $.at("tags").addToSet(1),
+    ]
+    expect(check).toBeTypeOf("function")
+  })
+
+  it("only emits typed ops built for the state of the log", () => {
+    const log = createStateSyncLog<State>({ yDoc: new Y.Doc(), retentionWindowMs: undefined })
+    const other = ops<{ taks: Task[] }>()
+    const check = () => {
+      // @ts-expect-error ops built for another state
+      log.emit([other.at("taks", 0).set("status", "doing")])
+      // @ts-expect-error mixed with ops built for another state
+      log.emit([$.set("tags", []), other.set("taks", [])])
+    }
+    expect(check).toBeTypeOf("function")
+  })
+
+  it("builds ops that can be emitted", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<State>({ yDoc: doc, retentionWindowMs: undefined })
+
+    const task: Task = { id: "t1", title: "A", status: "todo", votes: 0 }
+    log.emit([$.set("tasks", [task]), $.set("tags", []), $.set("columns", {})])
+    log.emit([
+      $.at("tasks", { id: "t1" }).set("status", "doing"),
+      $.at("columns").set("c1", { title: "Todo" }),
+    ])
+
+    expect(log.getState()).toStrictEqual({
+      tasks: [{ ...task, status: "doing" }],
+      tags: [],
+      columns: { c1: { title: "Todo" } },
+    })
+  })
+})
@@ -356,13 +356,17 @@ describe("applyOps validation", () => {
   it("throws when setting non-numeric property on array", () => {
     const target: any = { arr: [] }
     const ops: Op[] = [{ kind: "set", path: ["arr"], key: "someKey", value: 1 }]
-    expect(() => applyOps(ops, target)).toThrow(/Cannot set non-numeric property "someKey" on array/)
+    expect(() => applyOps(ops, target)).toThrow(
+      /Cannot set non-numeric property "someKey" on array/
+    )
   })
 
   it("throws when deleting non-numeric property from array", () => {
     const target: any = { arr: [] }
     const ops: Op[] = [{ kind: "delete", path: ["arr"], key: "someKey" }]
-    expect(() => applyOps(ops, target)).toThrow(/Cannot delete non-numeric property "someKey" from array/)
+    expect(() => applyOps(ops, target)).toThrow(
+      /Cannot delete non-numeric property "someKey" from array/
+    )
   })
 
   it("allows setting length property on array", () => {
@@ -492,3 +496,232 @@ describe("set undefined vs delete distinction", () => {
     expect(1 in target2.arr).toBe(false)
   })
 })
+
+describe("move / copy", () => {
+  const cases: { desc: string; base: any; op: Op; expected: any }[] = [
+    {
+      desc: "moves within an array (index after removal)",
+      base: { arr: ["a", "b", "c", "d"] },
+      op: { kind: "move", fromPath: ["arr"], fromKey: 0, path: ["arr"], key: 2 },
+      expected: { arr: ["b", "c", "a", "d"] },
+    },
+    {
+      desc: "moves between arrays (clamped index)",
+      base: { todo: [{ id: 1 }, { id: 2 }], done: [] },
+      op: { kind: "move", fromPath: ["todo"], fromKey: 1, path: ["done"], key: 10 },
+      expected: { todo: [{ id: 1 }], done: [{ id: 2 }] },
+    },
+    {
+      desc: "moves between objects (overwriting)",
+      base: { a: { x: 1 }, b: { y: 2, x: 0 } },
+      op: { kind: "move", fromPath: ["a"], fromKey: "x", path: ["b"], key: "x" },
+      expected: { a: {}, b: { y: 2, x: 1 } },
+    },
+    {
+      desc: "moves from an array into an object",
+      base: { list: ["a", "b"], map: {} },
+      op: { kind: "move", fromPath: ["list"], fromKey: "1", path: ["map"], key: "k" },
+      expected: { list: ["a"], map: { k: "b" } },
+    },
+    {
+      desc: "resolves the target path after removing the source",
+      base: { list: [{ items: [] }, { items: [1] }, { items: [2] }] },
+      op: { kind: "move", fromPath: ["list"], fromKey: 0, path: ["list", 1, "items"], key: 0 },
+      expected: { list: [{ items: [1] }, { items: [{ items: [] }, 2] }] },
+    },
+    {
+      desc: "copies within an array",
+      base: { arr: [{ id: 1 }] },
+      op: { kind: "copy", fromPath: ["arr"], fromKey: 0, path: ["arr"], key: 1 },
+      expected: { arr: [{ id: 1 }, { id: 1 }] },
+    },
+    {
+      desc: "copies into an object",
+      base: { templates: { t: { title: "" } }, boards: {} },
+      op: { kind: "copy", fromPath: ["templates"], fromKey: "t", path: ["boards"], key: "b1" },
+      expected: { templates: { t: { title: "" } }, boards: { b1: { title: "" } } },
+    },
+  ]
+
+  it.each(cases)("$desc", ({ base, op, expected }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "root", value: base }])
+    const { fromPath, path } = op as Extract<Op, { kind: "move" | "copy" }>
+    log.emit([{ ...op, fromPath: ["root", ...fromPath], path: ["root", ...path] } as Op])
+    expect(log.getState().root).toStrictEqual(expected)
+
+    // Same result when applied to a mutable target
+    const target = structuredClone(base)
+    applyOps([op], target)
+    expect(target).toStrictEqual(expected)
+  })
+
+  it("copies never alias the source in mutable targets", () => {
+    const target: any = { a: { x: 1 } }
+    applyOps([{ kind: "copy", fromPath: [], fromKey: "a", path: [], key: "b" }], target)
+    target.b.x = 2
+    expect(target.a.x).toBe(1)
+  })
+
+  it.each([
+    {
+      desc: "missing source property",
+      op: { kind: "move", fromPath: [], fromKey: "missing", path: [], key: "b" },
+      error: /move source property "missing" does not exist/,
+    },
+    {
+      desc: "out of bounds source index",
+      op: { kind: "copy", fromPath: ["arr"], fromKey: 5, path: ["arr"], key: 0 },
+      error: /copy source index 5 out of bounds/,
+    },
+    {
+      desc: "missing source container",
+      op: { kind: "move", fromPath: ["gone"], fromKey: "a", path: [], key: "b" },
+      error: /Property "gone" does not exist/,
+    },
+    {
+      desc: "moving a value into itself",
+      op: { kind: "move", fromPath: [], fromKey: "obj", path: ["obj"], key: "self" },
+      error: /Cannot move a value into itself/,
+    },
+  ] as { desc: string; op: Op; error: RegExp }[])("rejects the tx on $desc", ({ op, error }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "arr", value: [1] }])
+    log.emit([{ kind: "set", path: [], key: "obj", value: {} }])
+
+    const { txKey } = log.emit([op])
+    expect(log.getTxStatus(txKey)).toBe("rejected")
+    expect(log.getTxRejection(txKey)).toMatchObject({ kind: "error", opIndex: 0 })
+    expect(log.getState()).toStrictEqual({ arr: [1], obj: {} })
+
+    expect(() => applyOps([op], { arr: [1], obj: {} })).toThrow(error)
+  })
+})
+
+describe("replace", () => {
+  it("replaces the contents of the target in place", () => {
+    const target: any = { a: 1, b: { c: 2 } }
+    const value = { d: { e: 3 } }
+    const result = applyOps([{ kind: "replace", value }], target)
+
+    expect(result).toBe(target)
+    expect(target).toStrictEqual({ d: { e: 3 } })
+    // Values are cloned by default
+    expect(target.d).not.toBe(value.d)
+  })
+
+  it("replaces the contents of an array target in place", () => {
+    const target = [1, 2, 3]
+    const result = applyOps([{ kind: "replace", value: [4] }], target)
+
+    expect(result).toBe(target)
+    expect(target).toStrictEqual([4])
+  })
+
+  it("returns a new root when the root type changes", () => {
+    const target = { a: 1 }
+    const result = applyOps(
+      [
+        { kind: "replace", value: [{ x: 1 }] },
+        { kind: "set", path: [0], key: "x", value: 2 },
+      ],
+      target
+    )
+
+    expect(result).toStrictEqual([{ x: 2 }])
+    expect(target).toStrictEqual({ a: 1 })
+  })
+
+  it("replaces the state of the log", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    log.emit([{ kind: "replace", value: { backup: true } }])
+    expect(log.getState()).toStrictEqual({ backup: true })
+
+    const { txKey } = log.emit([{ kind: "replace", value: 5 as any }])
+    expect(log.getTxRejection(txKey)).toMatchObject({ kind: "error", opIndex: 0 })
+    expect(() => applyOps([{ kind: "replace", value: 5 as any }], {})).toThrow(
+      /replace requires an object or array value/
+    )
+  })
+})
+
+describe("element selectors", () => {
+  it("resolves paths through array elements by id", () => {
+    const target: any = {
+      tasks: [
+        { id: "t1", done: false },
+        { id: "t2", done: false },
+      ],
+    }
+    applyOps([{ kind: "set", path: ["tasks", { id: "t2" }], key: "done", value: true }], target)
+    expect(target.tasks).toStrictEqual([
+      { id: "t1", done: false },
+      { id: "t2", done: true },
+    ])
+  })
+
+  it("rejects the tx when no element matches", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "tasks", value: [{ id: "t1" }] }])
+
+    const op: Op = { kind: "set", path: ["tasks", { id: "t9" }], key: "done", value: true }
+    const { txKey } = log.emit([op])
+    expect(log.getTxRejection(txKey)).toMatchObject({
+      kind: "error",
+      message: 'No element matches path segment {"id":"t9"}',
+      opIndex: 0,
+    })
+    expect(() => applyOps([op], { tasks: [{ id: "t1" }] })).toThrow(
+      'No element matches path segment {"id":"t9"}'
+    )
+  })
+
+  it("keeps targeting the same element after concurrent splices", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+    const sync = () => {
+      Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+      Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+    }
+
+    logA.emit([
+      { kind: "set", path: [], key: "tasks", value: [{ id: "t1" }, { id: "t2" }, { id: "t3" }] },
+    ])
+    sync()
+    logA.emit([{ kind: "splice", path: ["tasks"], index: 0, deleteCount: 1, inserts: [] }])
+    logB.emit([{ kind: "set", path: ["tasks", { id: "t3" }], key: "status", value: "done" }])
+    sync()
+
+    const expected = { tasks: [{ id: "t2" }, { id: "t3", status: "done" }] }
+    expect(logA.getState()).toStrictEqual(expected)
+    expect(logB.getState()).toStrictEqual(expected)
+  })
+
+  it("moves elements addressed by id", () => {
+    const target: any = { cols: { todo: [{ id: 1 }, { id: 2 }], done: [] } }
+    applyOps(
+      [{ kind: "move", fromPath: ["cols", "todo"], fromKey: 1, path: ["cols", "done"], key: 0 }],
+      target
+    )
+    applyOps(
+      [{ kind: "set", path: ["cols", "done", { id: 2 }], key: "moved", value: true }],
+      target
+    )
+    expect(target.cols).toStrictEqual({ todo: [{ id: 1 }], done: [{ id: 2, moved: true }] })
+  })
+})
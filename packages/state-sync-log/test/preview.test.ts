@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, TxRejectedError } from "../src/index"
+
+type State = { count?: number; list?: string[] }
+
+function createLog() {
+  const doc = new Y.Doc()
+  return createStateSyncLog<State>({
+    yDoc: doc,
+    retentionWindowMs: undefined,
+    validate: (state) =>
+      (state.count ?? 0) >= 0 || { ruleId: "count", message: "count must not be negative" },
+  })
+}
+
+describe("preview", () => {
+  it("returns the would-be state without writing to the log", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    const state = log.getState()
+
+    const preview = log.preview([{ kind: "increment", path: [], key: "count", by: 2 }])
+    expect(preview).toStrictEqual({ state: { count: 3 }, rejection: undefined })
+    expect(log.getState()).toBe(state)
+    expect(log.getHistory()).toHaveLength(1)
+  })
+
+  it("accepts ops with pointer paths", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: [], key: "list", value: ["a"] }])
+
+    const preview = log.preview([{ kind: "set", path: "/list", key: 0, value: "b" }])
+    expect(preview.state).toStrictEqual({ list: ["b"] })
+  })
+
+  it("reports ops that fail to apply", () => {
+    const log = createLog()
+    const state = log.getState()
+
+    const preview = log.preview([{ kind: "set", path: ["missing"], key: "a", value: 1 }])
+    expect(preview.state).toBe(state)
+    expect(preview.rejection).toMatchObject({ kind: "error", opIndex: 0 })
+  })
+
+  it("reports validation failures", () => {
+    const log = createLog()
+
+    const preview = log.preview([{ kind: "set", path: [], key: "count", value: -1 }])
+    expect(preview.rejection).toStrictEqual({
+      kind: "validation",
+      ruleId: "count",
+      message: "count must not be negative",
+    })
+  })
+})
+
+describe("strict emit", () => {
+  it("throws and writes nothing when the tx would be rejected", () => {
+    const log = createLog()
+
+    let error: unknown
+    try {
+      log.emit([{ kind: "set", path: [], key: "count", value: -1 }], { strict: true })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(TxRejectedError)
+    expect((error as TxRejectedError).rejection).toMatchObject({ kind: "validation" })
+    expect((error as TxRejectedError).message).toBe(
+      "Tx would be rejected (validation): count must not be negative"
+    )
+    expect(log.getHistory()).toHaveLength(0)
+  })
+
+  it("emits txs that would be applied", () => {
+    const log = createLog()
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }], {
+      strict: true,
+    })
+    expect(log.getTxStatus(txKey)).toBe("applied")
+    expect(log.getState()).toStrictEqual({ count: 1 })
+  })
+
+  it("applies to update", () => {
+    const log = createLog()
+
+    expect(() =>
+      log.update(
+        (draft) => {
+          draft.count = -1
+        },
+        { strict: true }
+      )
+    ).toThrow(TxRejectedError)
+    expect(log.getHistory()).toHaveLength(0)
+  })
+})
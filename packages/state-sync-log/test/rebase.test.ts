@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyTxImmutable } from "../src/draft"
+import { applyOps, createStateSyncLog, type Op } from "../src/index"
+import { rebaseOps } from "../src/rebase"
+
+function createClients(rebaseArrayIndexes: boolean) {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({
+    yDoc: docA,
+    clientId: "A",
+    retentionWindowMs: undefined,
+    rebaseArrayIndexes,
+  })
+  const logB = createStateSyncLog<any>({
+    yDoc: docB,
+    clientId: "B",
+    retentionWindowMs: undefined,
+    rebaseArrayIndexes,
+  })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+const splice = (index: number, deleteCount: number, inserts: any[] = []): Op => ({
+  kind: "splice",
+  path: ["l"],
+  index,
+  deleteCount,
+  inserts,
+})
+
+describe("rebaseOps", () => {
+  it.each([
+    {
+      desc: "shifts inserts after a concurrent insert",
+      base: ["a", "b", "c"],
+      concurrent: [splice(0, 0, ["x"])],
+      ops: [splice(2, 0, ["y"])],
+      expected: ["x", "a", "b", "y", "c"],
+    },
+    {
+      desc: "keeps inserts before a concurrent insert",
+      base: ["a", "b", "c"],
+      concurrent: [splice(2, 0, ["x"])],
+      ops: [splice(1, 0, ["y"])],
+      expected: ["a", "y", "b", "x", "c"],
+    },
+    {
+      desc: "places inserts at the same index after the concurrent ones",
+      base: ["a", "b"],
+      concurrent: [splice(1, 0, ["x"])],
+      ops: [splice(1, 0, ["y"])],
+      expected: ["a", "x", "y", "b"],
+    },
+    {
+      desc: "shifts deletes after a concurrent delete",
+      base: ["a", "b", "c", "d"],
+      concurrent: [splice(0, 1)],
+      ops: [splice(2, 1)],
+      expected: ["b", "d"],
+    },
+    {
+      desc: "does not delete twice",
+      base: ["a", "b", "c", "d"],
+      concurrent: [splice(1, 2)],
+      ops: [splice(2, 2)],
+      expected: ["a"],
+    },
+    {
+      desc: "does not delete concurrent inserts",
+      base: ["a", "b", "c", "d"],
+      concurrent: [splice(2, 0, ["x"])],
+      ops: [splice(1, 2)],
+      expected: ["a", "x", "d"],
+    },
+    {
+      desc: "sets the same element",
+      base: [{ v: 0 }, { v: 0 }],
+      concurrent: [splice(0, 0, ["x"])],
+      ops: [{ kind: "set", path: ["l"], key: 1, value: "y" }],
+      expected: ["x", { v: 0 }, "y"],
+    },
+    {
+      desc: "drops sets to deleted elements",
+      base: ["a", "b"],
+      concurrent: [splice(1, 1)],
+      ops: [{ kind: "set", path: ["l"], key: 1, value: "y" }],
+      expected: ["a"],
+    },
+    {
+      desc: "rebases paths through the array",
+      base: [{ v: 0 }, { v: 0 }],
+      concurrent: [splice(0, 1)],
+      ops: [{ kind: "set", path: ["l", 1], key: "v", value: 1 }],
+      expected: [{ v: 1 }],
+    },
+    {
+      desc: "rebases later ops of the tx over the updated concurrent splice",
+      base: ["a", "b", "c"],
+      concurrent: [splice(2, 0, ["x"])],
+      ops: [splice(0, 1), splice(1, 1)],
+      expected: ["b", "x"],
+    },
+    {
+      desc: "keeps text edits on their element",
+      base: ["ab", "cd"],
+      concurrent: [splice(0, 1)],
+      ops: [{ kind: "stringSplice", path: ["l"], key: 1, index: 1, deleteCount: 1, insert: "x" }],
+      expected: ["cx"],
+    },
+  ] as { desc: string; base: any[]; concurrent: Op[]; ops: Op[]; expected: any[] }[])("$desc", ({
+    base,
+    concurrent,
+    ops,
+    expected,
+  }) => {
+    const state = applyTxImmutable({ l: base }, { ops: concurrent })
+    const rebased = rebaseOps(ops, concurrent)
+    expect(applyTxImmutable(state, { ops: rebased })).toStrictEqual({ l: expected })
+  })
+
+  it.each([
+    {
+      desc: "shifts text edits after a concurrent edit",
+      concurrent: [0, 4, "one"],
+      ops: [[9, 3, "SIX"]],
+      expected: "one two SIX",
+    },
+    {
+      desc: "does not delete text twice",
+      concurrent: [4, 5, ""],
+      ops: [[5, 7, "x"]],
+      expected: "zerox",
+    },
+    {
+      desc: "splits deletes around concurrent inserts",
+      concurrent: [5, 0, "and "],
+      ops: [[0, 12, ""]],
+      expected: "and ",
+    },
+  ] as {
+    desc: string
+    concurrent: [number, number, string]
+    ops: [number, number, string][]
+    expected: string
+  }[])("$desc", ({ concurrent, ops, expected }) => {
+    const textSplice = ([index, deleteCount, insert]: [number, number, string]): Op => ({
+      kind: "stringSplice",
+      path: [],
+      key: "s",
+      index,
+      deleteCount,
+      insert,
+    })
+    const concurrentOps = [textSplice(concurrent)]
+    const state = applyTxImmutable({ s: "zero two six" }, { ops: concurrentOps })
+    const rebased = rebaseOps(ops.map(textSplice), concurrentOps)
+    expect(applyTxImmutable(state, { ops: rebased })).toStrictEqual({ s: expected })
+  })
+
+  it("returns the same ops when there are no concurrent splices", () => {
+    const ops: Op[] = [splice(0, 1)]
+    expect(rebaseOps(ops, [{ kind: "set", path: [], key: "a", value: 1 }])).toBe(ops)
+  })
+})
+
+describe("rebaseArrayIndexes option", () => {
+  function concurrentInserts(rebaseArrayIndexes: boolean) {
+    const { logA, logB, sync } = createClients(rebaseArrayIndexes)
+    logA.emit([{ kind: "set", path: [], key: "l", value: ["a", "b", "c"] }])
+    sync()
+
+    // A inserts at the top while B inserts before "c"
+    logA.emit([splice(0, 0, ["x"])])
+    logB.emit([splice(2, 0, ["y"])])
+    sync()
+
+    expect(logA.getState()).toStrictEqual(logB.getState())
+    return logA.getState().l
+  }
+
+  it("rebases the indexes of concurrent txs", () => {
+    expect(concurrentInserts(true)).toStrictEqual(["x", "a", "b", "y", "c"])
+  })
+
+  it("is disabled by default", () => {
+    expect(concurrentInserts(false)).toStrictEqual(["x", "a", "y", "b", "c"])
+  })
+
+  it("reports the rebased ops to subscribers", () => {
+    const { logA, logB, sync } = createClients(true)
+    logA.emit([{ kind: "set", path: [], key: "l", value: ["a", "b"] }])
+    sync()
+
+    const mirror: any = structuredClone(logA.getState())
+    logA.subscribe((_state, getAppliedOps) => {
+      applyOps(getAppliedOps(), mirror)
+    })
+
+    logA.emit([splice(0, 0, ["x"])])
+    logB.emit([{ kind: "set", path: ["l"], key: 1, value: "B" }])
+    sync()
+
+    expect(logA.getState()).toStrictEqual({ l: ["x", "a", "B"] })
+    expect(mirror).toStrictEqual(logA.getState())
+  })
+
+  it("rebases every tx emitted without seeing a concurrent one", () => {
+    const { logA, logB, sync } = createClients(true)
+    logA.emit([{ kind: "set", path: [], key: "l", value: ["x", "y", "z"] }])
+    sync()
+
+    // B emits several txs offline, so its last one has a higher clock than A's splice
+    logB.emit([{ kind: "set", path: [], key: "other", value: 1 }])
+    logB.emit([{ kind: "set", path: ["l"], key: 2, value: "Z" }])
+    logA.emit([splice(0, 0, ["w"])])
+    sync()
+
+    expect(logA.getState()).toStrictEqual(logB.getState())
+    expect(logA.getState().l).toStrictEqual(["w", "x", "y", "Z"])
+  })
+
+  it("only records the seen clock when rebasing", () => {
+    for (const rebaseArrayIndexes of [false, true]) {
+      const doc = new Y.Doc()
+      const log = createStateSyncLog<any>({
+        yDoc: doc,
+        retentionWindowMs: undefined,
+        rebaseArrayIndexes,
+      })
+      const { txKey } = log.emit([{ kind: "set", path: [], key: "l", value: [] }])
+      const record = doc.getMap<any>("state-sync-log-tx").get(txKey)
+      expect(record.seenClock).toBe(rebaseArrayIndexes ? 0 : undefined)
+    }
+  })
+
+  it("does not rebase txs whose author had seen the other tx", () => {
+    const { logA, logB, sync } = createClients(true)
+    logA.emit([{ kind: "set", path: [], key: "l", value: ["a", "b"] }])
+    sync()
+
+    logA.emit([splice(0, 0, ["x"])])
+    sync()
+    logB.emit([splice(1, 0, ["y"])])
+    sync()
+
+    expect(logA.getState()).toStrictEqual({ l: ["x", "y", "a", "b"] })
+  })
+})
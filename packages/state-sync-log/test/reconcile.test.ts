@@ -110,15 +110,26 @@ describe("Reconcile", () => {
     expect(spy).toHaveBeenCalledTimes(1) // Still only 1 call
   })
 
-  it("handles changing root type (should fail)", () => {
+  it("handles changing root type with a replace op", () => {
     // This hits emitReplace with empty path
     const current = { a: 1 }
     const target = [1]
 
-    // computeReconcileOps catches this? No, it pushes ops.
-    // emitReplace calls failure in this case.
-    // So computeReconcileOps should revert/throw.
-    expect(() => computeReconcileOps(current, target)).toThrow(/Cannot replace root state directly/)
+    expect(computeReconcileOps(current, target)).toStrictEqual([{ kind: "replace", value: [1] }])
+  })
+
+  it("reconciles a root type change", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    const spy = vi.fn()
+    log.subscribe(spy)
+
+    log.reconcileState({ a: 1 })
+    log.reconcileState([{ a: 1 }])
+    expect(log.getState()).toStrictEqual([{ a: 1 }])
+
+    const getAppliedOps = spy.mock.calls[1][1]
+    expect(getAppliedOps()).toStrictEqual([{ kind: "replace", value: [{ a: 1 }] }])
   })
 
   it("short-circuits on identical object reference", () => {
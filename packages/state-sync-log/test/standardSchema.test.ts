@@ -0,0 +1,108 @@
+import { runInNewContext } from "node:vm"
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  createStateSyncLog,
+  type StandardSchemaV1,
+  type StandardSchemaV1Issue,
+  standardSchemaValidator,
+} from "../src/index"
+
+type State = { count?: number; items?: { name: string }[] }
+
+// A minimal hand-written Standard Schema, standing in for a Zod / Valibot / ArkType schema
+const stateSchema: StandardSchemaV1<State> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate(value) {
+      const state = value as State
+      const issues: StandardSchemaV1Issue[] = []
+      if ((state.count ?? 0) < 0) {
+        issues.push({ message: "Too small", path: ["count"] })
+      }
+      state.items?.forEach((item, i) => {
+        if (item.name === "") {
+          issues.push({ message: "Required", path: [{ key: "items" }, { key: i }, "name"] })
+        }
+      })
+      return issues.length > 0 ? { issues } : { value: state }
+    },
+  },
+}
+
+function createLog(schema: StandardSchemaV1 = stateSchema) {
+  const doc = new Y.Doc()
+  return createStateSyncLog<State>({
+    yDoc: doc,
+    retentionWindowMs: undefined,
+    validate: standardSchemaValidator(schema),
+  })
+}
+
+describe("standardSchemaValidator", () => {
+  it("applies txs the schema accepts", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    expect(log.getState()).toStrictEqual({ count: 1 })
+  })
+
+  it("rejects txs with the first issue", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: [], key: "items", value: [{ name: "a" }] }])
+
+    const { txKey } = log.emit([
+      { kind: "set", path: ["items", 0], key: "name", value: "" },
+      { kind: "set", path: [], key: "count", value: -1 },
+    ])
+    expect(log.getState()).toStrictEqual({ items: [{ name: "a" }] })
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      message: "Too small",
+      path: ["count"],
+    })
+
+    const { txKey: txKey2 } = log.emit([
+      { kind: "set", path: ["items", 0], key: "name", value: "" },
+    ])
+    expect(log.getTxRejection(txKey2)).toStrictEqual({
+      kind: "validation",
+      message: "Required",
+      path: ["items", 0, "name"],
+    })
+  })
+
+  it("rejects txs when the schema is async", () => {
+    const log = createLog({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => Promise.resolve({ value }),
+      },
+    })
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    expect(log.getTxRejection(txKey)).toMatchObject({
+      kind: "error",
+      message: "Standard Schema validators used to validate the state must be synchronous",
+    })
+  })
+
+  it("rejects txs when the schema returns a promise from another realm", () => {
+    const promise = runInNewContext("Promise.resolve({ value: 1 })")
+    expect(promise).not.toBeInstanceOf(Promise)
+    const log = createLog({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => promise,
+      },
+    })
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    expect(log.getTxRejection(txKey)).toMatchObject({
+      kind: "error",
+      message: "Standard Schema validators used to validate the state must be synchronous",
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, type StateMachine, stateMachineValidator } from "../src/index"
+
+type Status = "draft" | "review" | "published"
+type Article = { id: string; status: Status; author: string }
+type State = { articles: Article[]; labels?: { [id: string]: { status: string } } }
+
+const articleStatus: StateMachine<State> = {
+  id: "articleStatus",
+  path: "/articles/*/status",
+  transitions: { draft: ["review"], review: ["draft", "published"], published: [] },
+  initial: ["draft"],
+}
+
+function createLog(machines: StateMachine<State>[] = [articleStatus], clientId = "A") {
+  const log = createStateSyncLog<State>({
+    yDoc: new Y.Doc(),
+    clientId,
+    retentionWindowMs: undefined,
+    validate: stateMachineValidator(machines),
+  })
+  log.emit([
+    {
+      kind: "set",
+      path: [],
+      key: "articles",
+      value: [
+        { id: "a1", status: "draft", author: "A" },
+        { id: "a2", status: "draft", author: "B" },
+      ],
+    },
+  ])
+  log.emit([{ kind: "set", path: ["articles", 1], key: "status", value: "review" }])
+  return log
+}
+
+describe("stateMachineValidator", () => {
+  it("allows declared transitions", () => {
+    const log = createLog()
+    log.emit([{ kind: "set", path: ["articles", 0], key: "status", value: "review" }])
+    log.emit([{ kind: "set", path: ["articles", 1], key: "status", value: "published" }])
+    expect(log.getState().articles.map((a) => a.status)).toStrictEqual(["review", "published"])
+  })
+
+  it("rejects undeclared transitions", () => {
+    const log = createLog()
+    const { txKey } = log.emit([
+      { kind: "set", path: ["articles", 0], key: "status", value: "published" },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "articleStatus",
+      message: 'Illegal transition of status from "draft" to "published"',
+      path: ["articles", 0, "status"],
+    })
+  })
+
+  it("rejects unknown states and illegal initial states", () => {
+    const log = createLog()
+    const { txKey } = log.emit([
+      { kind: "set", path: ["articles", 0], key: "status", value: "archived" },
+    ])
+    expect(log.getTxRejection(txKey)).toMatchObject({
+      message: '"archived" is not a state of status',
+    })
+
+    const { txKey: txKey2 } = log.emit([
+      {
+        kind: "splice",
+        path: ["articles"],
+        index: 2,
+        deleteCount: 0,
+        inserts: [{ id: "a3", status: "published", author: "A" }],
+      },
+    ])
+    expect(log.getTxRejection(txKey2)).toMatchObject({
+      message: 'status cannot start as "published"',
+      path: ["articles", 2, "status"],
+    })
+  })
+
+  it("pairs array elements by id", () => {
+    const log = createLog()
+    // a2 moves to index 0 unchanged, a new draft article takes index 1
+    log.emit([
+      { kind: "splice", path: ["articles"], index: 0, deleteCount: 1, inserts: [] },
+      {
+        kind: "splice",
+        path: ["articles"],
+        index: 1,
+        deleteCount: 0,
+        inserts: [{ id: "a3", status: "draft", author: "A" }],
+      },
+    ])
+    expect(log.getState().articles.map((a) => a.id)).toStrictEqual(["a2", "a3"])
+
+    // Replacing an article with another one is not a transition
+    log.emit([
+      {
+        kind: "splice",
+        path: ["articles"],
+        index: 0,
+        deleteCount: 1,
+        inserts: [{ id: "a4", status: "draft", author: "A" }],
+      },
+    ])
+    expect(log.getState().articles.map((a) => a.id)).toStrictEqual(["a4", "a3"])
+
+    // Removing values is allowed
+    log.emit([{ kind: "delete", path: ["articles", 0], key: "status" }])
+    expect(log.getState().articles[0]).toStrictEqual({ id: "a4", author: "A" })
+  })
+
+  it("matches object keys", () => {
+    const log = createLog([
+      { id: "labelStatus", path: ["labels", "*", "status"], transitions: { on: ["off"], off: [] } },
+    ])
+    log.emit([{ kind: "set", path: [], key: "labels", value: { l1: { status: "on" } } }])
+    log.emit([{ kind: "set", path: ["labels", "l1"], key: "status", value: "off" }])
+    const { txKey } = log.emit([
+      { kind: "set", path: ["labels", "l1"], key: "status", value: "on" },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "labelStatus",
+      message: 'Illegal transition of status from "off" to "on"',
+      path: ["labels", "l1", "status"],
+    })
+  })
+
+  it("runs guards on allowed transitions", () => {
+    const guarded: StateMachine<State> = {
+      ...articleStatus,
+      guard: ({ from, to, path, state, context }) => {
+        const article = state.articles[path[1] as number]
+        if (to === "published" && context.clientId === article.author) {
+          return {
+            ruleId: "authorPublish",
+            message: `Authors cannot move their articles from ${from} to ${to}`,
+            path: [...path.slice(0, 2), "author"],
+          }
+        }
+        return to !== "draft" || from !== "review"
+      },
+    }
+
+    const log = createLog([guarded], "B")
+    const { txKey } = log.emit([
+      { kind: "set", path: ["articles", 1], key: "status", value: "published" },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "articleStatus",
+      message: "Authors cannot move their articles from review to published",
+      path: ["articles", 1, "author"],
+    })
+
+    const { txKey: txKey2 } = log.emit([
+      { kind: "set", path: ["articles", 1], key: "status", value: "draft" },
+    ])
+    expect(log.getTxRejection(txKey2)).toMatchObject({
+      message: 'Illegal transition of status from "review" to "draft"',
+      path: ["articles", 1, "status"],
+    })
+
+    log.emit([{ kind: "set", path: ["articles", 0], key: "status", value: "review" }])
+    log.emit([{ kind: "set", path: ["articles", 0], key: "status", value: "published" }])
+    expect(log.getState().articles[0].status).toBe("published")
+  })
+})
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyOps, createOps, createStateSyncLog, type Op } from "../src/index"
+import { computeReconcileOps, diffText } from "../src/reconcile"
+
+const text = "The quick brown fox jumps over the lazy dog."
+
+function createClients(rebaseArrayIndexes?: boolean) {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({
+    yDoc: docA,
+    clientId: "A",
+    retentionWindowMs: undefined,
+    rebaseArrayIndexes,
+  })
+  const logB = createStateSyncLog<any>({
+    yDoc: docB,
+    clientId: "B",
+    retentionWindowMs: undefined,
+    rebaseArrayIndexes,
+  })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+describe("stringSplice", () => {
+  it.each([
+    {
+      desc: "replaces text",
+      base: { s: "hello world" },
+      op: { kind: "stringSplice", path: [], key: "s", index: 6, deleteCount: 5, insert: "there" },
+      expected: { s: "hello there" },
+    },
+    {
+      desc: "inserts text",
+      base: { s: "ac" },
+      op: { kind: "stringSplice", path: [], key: "s", index: 1, deleteCount: 0, insert: "b" },
+      expected: { s: "abc" },
+    },
+    {
+      desc: "clamps the index to the end of the string",
+      base: { s: "ab" },
+      op: { kind: "stringSplice", path: [], key: "s", index: 5, deleteCount: 1, insert: "c" },
+      expected: { s: "abc" },
+    },
+    {
+      desc: "edits an array element",
+      base: { list: ["ab"] },
+      op: { kind: "stringSplice", path: ["list"], key: 0, index: 0, deleteCount: 1, insert: "" },
+      expected: { list: ["b"] },
+    },
+  ] as {
+    desc: string
+    base: any
+    op: Extract<Op, { kind: "stringSplice" }>
+    expected: any
+  }[])("$desc", ({ base, op, expected }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "root", value: base }])
+    log.emit([{ ...op, path: ["root", ...op.path] }])
+    expect(log.getState().root).toStrictEqual(expected)
+
+    const target = structuredClone(base)
+    applyOps([op], target)
+    expect(target).toStrictEqual(expected)
+  })
+
+  it("rejects the tx on a non-string value", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "n", value: 1 }])
+
+    const { txKey } = log.emit([
+      { kind: "stringSplice", path: [], key: "n", index: 0, deleteCount: 0, insert: "a" },
+    ])
+    expect(log.getTxRejection(txKey)).toMatchObject({ kind: "error", opIndex: 0 })
+    expect(log.getState()).toStrictEqual({ n: 1 })
+  })
+})
+
+describe("diffText", () => {
+  it("returns the edit between the common prefix and suffix", () => {
+    expect(diffText(text, text.replace("brown", "red"))).toStrictEqual({
+      index: 10,
+      deleteCount: 5,
+      insert: "red",
+    })
+    expect(diffText(text, `${text} The end.`)).toStrictEqual({
+      index: text.length,
+      deleteCount: 0,
+      insert: " The end.",
+    })
+  })
+
+  it("does not split surrogate pairs", () => {
+    const base = `${text} 😀`
+    const edit = diffText(base, `${text} 😃`)!
+    expect(edit.index).toBe(text.length + 1)
+    expect(edit.deleteCount).toBe(2)
+    expect(edit.insert).toBe("😃")
+  })
+
+  it("returns undefined for short or unrelated strings", () => {
+    expect(diffText("hello", "help")).toBeUndefined()
+    expect(diffText(text, "Something completely different!!")).toBeUndefined()
+  })
+})
+
+describe("stringSplice generation", () => {
+  it("is generated by reconcile for long strings", () => {
+    const target = { doc: { body: text.replace("lazy", "sleepy") } }
+    const ops = computeReconcileOps({ doc: { body: text } }, target, true)
+    expect(ops).toStrictEqual([
+      {
+        kind: "stringSplice",
+        path: ["doc"],
+        key: "body",
+        index: 35,
+        deleteCount: 3,
+        insert: "sleep",
+      },
+    ])
+
+    const state = { doc: { body: text } }
+    applyOps(ops, state)
+    expect(state).toStrictEqual(target)
+  })
+
+  it("is generated by createOps for long strings", () => {
+    const { nextState, ops } = createOps(
+      { items: [text] },
+      (draft) => {
+        draft.items[0] = text.replace("quick", "slow")
+      },
+      { textSplices: true }
+    )
+    expect(ops).toStrictEqual([
+      { kind: "stringSplice", path: ["items"], key: 0, index: 4, deleteCount: 5, insert: "slow" },
+    ])
+    expect(nextState).toStrictEqual({ items: [text.replace("quick", "slow")] })
+  })
+
+  it("is not generated unless enabled", () => {
+    const body = text.replace("quick", "slow")
+    expect(computeReconcileOps({ body: text }, { body })).toStrictEqual([
+      { kind: "set", path: [], key: "body", value: body },
+    ])
+
+    const { ops } = createOps({ body: text }, (draft) => {
+      draft.body = body
+    })
+    expect(ops).toStrictEqual([{ kind: "set", path: [], key: "body", value: body }])
+  })
+
+  it("is only emitted by logs that rebase array indexes", () => {
+    const edit = (rebaseArrayIndexes?: boolean) => {
+      const { logA } = createClients(rebaseArrayIndexes)
+      logA.emit([{ kind: "set", path: [], key: "body", value: text }])
+      return logA.update((draft) => {
+        draft.body = text.replace("quick", "slow")
+      }).ops[0].kind
+    }
+    expect(edit()).toBe("set")
+    expect(edit(true)).toBe("stringSplice")
+  })
+
+  it("merges non-overlapping concurrent edits", () => {
+    const { logA, logB, sync } = createClients(true)
+    logA.emit([{ kind: "set", path: [], key: "body", value: text }])
+    sync()
+
+    logA.reconcileState({ body: text.replace("quick", "slow") })
+    logB.reconcileState({ body: text.replace("lazy", "sleepy") })
+    sync()
+
+    expect(logA.getState()).toStrictEqual(logB.getState())
+    expect(logA.getState().body).toBe("The slow brown fox jumps over the sleepy dog.")
+  })
+
+  it("keeps one of the concurrent edits with the default options", () => {
+    const { logA, logB, sync } = createClients()
+    logA.emit([{ kind: "set", path: [], key: "body", value: text }])
+    sync()
+
+    const editA = text.replace("quick", "slow")
+    const editB = text.replace("lazy dog", "sleepy cat")
+    logA.reconcileState({ body: editA })
+    logB.update((draft) => {
+      draft.body = editB
+    })
+    sync()
+
+    expect(logA.getState()).toStrictEqual(logB.getState())
+    expect([editA, editB]).toContain(logA.getState().body)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyOps, createOps, createStateSyncLog, type Op } from "../src/index"
+
+function createClients() {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({ yDoc: docA, clientId: "A", retentionWindowMs: undefined })
+  const logB = createStateSyncLog<any>({ yDoc: docB, clientId: "B", retentionWindowMs: undefined })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+describe("test ops", () => {
+  it.each([
+    {
+      desc: "an equal primitive",
+      base: { status: "todo" },
+      op: { kind: "test", path: [], key: "status", value: "todo" },
+      passes: true,
+    },
+    {
+      desc: "a different primitive",
+      base: { status: "doing" },
+      op: { kind: "test", path: [], key: "status", value: "todo" },
+      passes: false,
+    },
+    {
+      desc: "a deeply equal object",
+      base: { task: { tags: ["a"] } },
+      op: { kind: "test", path: [], key: "task", value: { tags: ["a"] } },
+      passes: true,
+    },
+    {
+      desc: "an array element",
+      base: { list: [1, 2] },
+      op: { kind: "test", path: ["list"], key: 1, value: 2 },
+      passes: true,
+    },
+    {
+      desc: "an array length",
+      base: { list: [1, 2] },
+      op: { kind: "test", path: ["list"], key: "length", value: 3 },
+      passes: false,
+    },
+    {
+      desc: "an existing key",
+      base: { a: null },
+      op: { kind: "test", path: [], key: "a", exists: true },
+      passes: true,
+    },
+    {
+      desc: "a missing key expected to exist",
+      base: {},
+      op: { kind: "test", path: [], key: "a", exists: true },
+      passes: false,
+    },
+    {
+      desc: "a missing key",
+      base: {},
+      op: { kind: "test", path: [], key: "a", exists: false },
+      passes: true,
+    },
+    {
+      desc: "a key in a missing container",
+      base: {},
+      op: { kind: "test", path: ["missing"], key: "a", exists: false },
+      passes: true,
+    },
+    {
+      desc: "an existing key expected to be missing",
+      base: { a: 1 },
+      op: { kind: "test", path: [], key: "a", exists: false },
+      passes: false,
+    },
+  ] as {
+    desc: string
+    base: any
+    op: Extract<Op, { kind: "test" }>
+    passes: boolean
+  }[])("checks $desc", ({ base, op, passes }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "root", value: base }])
+
+    const { txKey } = log.emit([
+      { ...op, path: ["root", ...op.path] },
+      { kind: "set", path: [], key: "changed", value: true },
+    ])
+    expect(log.getTxStatus(txKey)).toBe(passes ? "applied" : "rejected")
+    expect(log.getState().changed).toBe(passes ? true : undefined)
+    if (!passes) {
+      expect(log.getTxRejection(txKey)).toMatchObject({ kind: "test", opIndex: 0 })
+    }
+
+    const check = () => applyOps([op], structuredClone(base))
+    if (passes) {
+      expect(check).not.toThrow()
+    } else {
+      expect(check).toThrow("Test failed")
+    }
+  })
+
+  it("does not change the state", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "a", value: { b: 1 } }])
+    const state = log.getState()
+
+    log.emit([{ kind: "test", path: ["a"], key: "b", value: 1 }])
+    expect(log.getState()).toBe(state)
+  })
+
+  it("implements compare-and-set between concurrent clients", () => {
+    const { logA, logB, sync } = createClients()
+
+    logA.emit([{ kind: "set", path: [], key: "task", value: { status: "todo", owner: null } }])
+    sync()
+
+    // Both clients claim the task at the same time
+    const claim = (log: typeof logA, owner: string) =>
+      log.emit(
+        createOps(
+          log.getState(),
+          (draft) => {
+            if (draft.task.owner === null) {
+              draft.task.owner = owner
+            }
+          },
+          { generateTests: true }
+        ).ops
+      )
+    const { txKey: keyA } = claim(logA, "A")
+    const { txKey: keyB } = claim(logB, "B")
+    sync()
+
+    // Only the first claim in log order is applied
+    expect(logA.getState()).toStrictEqual(logB.getState())
+    const statuses = [logA.getTxStatus(keyA), logA.getTxStatus(keyB)]
+    expect([...statuses].sort()).toStrictEqual(["applied", "rejected"])
+    const winner = statuses[0] === "applied" ? "A" : "B"
+    expect(logA.getState().task.owner).toBe(winner)
+  })
+})
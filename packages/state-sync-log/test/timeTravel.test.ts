@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog } from "../src/index"
+
+describe("Time Travel", () => {
+  it("returns the state right after each tx", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: (state) => state.count === undefined || state.count >= 0,
+    })
+
+    const { txKey: k1 } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    const { txKey: k2 } = log.emit([{ kind: "set", path: [], key: "count", value: -1 }])
+    const { txKey: k3 } = log.emit([{ kind: "set", path: [], key: "other", value: true }])
+
+    expect(log.getStateAt(k1)).toStrictEqual({ count: 1 })
+    // Rejected tx leaves the state unchanged
+    expect(log.getStateAt(k2)).toStrictEqual({ count: 1 })
+    expect(log.getStateAt(k3)).toStrictEqual({ count: 1, other: true })
+    expect(log.getStateAt(k3)).toBe(log.getState())
+    expect(log.getStateAt("0;999;unknown;0")).toBeUndefined()
+  })
+
+  it("replays from the base checkpoint", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    log.compact()
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+
+    expect(log.getStateAt(txKey)).toStrictEqual({ a: 1, b: 2 })
+    expect(log.getStateAtTime(0)).toStrictEqual({ a: 1 })
+  })
+
+  it("returns the state as of a wall clock time", () => {
+    vi.useFakeTimers()
+    try {
+      const doc = new Y.Doc()
+      const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+      vi.setSystemTime(1000)
+      log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+      vi.setSystemTime(2000)
+      log.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+
+      expect(log.getStateAtTime(999)).toStrictEqual({})
+      expect(log.getStateAtTime(1000)).toStrictEqual({ a: 1 })
+      expect(log.getStateAtTime(1500)).toStrictEqual({ a: 1 })
+      expect(log.getStateAtTime(2000)).toStrictEqual({ a: 1, b: 2 })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("scrubs through many txs and follows out-of-order inserts", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    logA.emit([{ kind: "set", path: [], key: "list", value: [] }])
+    const keys: string[] = []
+    for (let i = 0; i < 300; i++) {
+      keys.push(
+        logA.emit([{ kind: "splice", path: ["list"], index: i, deleteCount: 0, inserts: [i] }])
+          .txKey
+      )
+    }
+
+    // Scrub backwards and forwards
+    for (const i of [299, 0, 150, 64, 63, 65, 200, 128]) {
+      expect(logA.getStateAt(keys[i]).list).toStrictEqual(
+        Array.from({ length: i + 1 }, (_, j) => j)
+      )
+    }
+
+    // B's tx has a low clock, so it gets inserted near the start of A's log
+    logB.emit([{ kind: "set", path: [], key: "b", value: true }])
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+
+    for (const i of [0, 150, 299]) {
+      const state = logA.getStateAt(keys[i])
+      expect(state.b).toBe(true)
+      expect(state.list).toHaveLength(i + 1)
+    }
+    expect(logA.getStateAt(keys[299])).toStrictEqual(logA.getState())
+  })
+
+  it("applies deduplicated txs only once", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    logA.emit([{ kind: "set", path: [], key: "list", value: [] }])
+    logA.compact()
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+
+    const { txKey } = logA.emit([{ kind: "addToSet", path: ["list"], value: 1 }])
+    logA.emit([{ kind: "splice", path: ["list"], index: 0, deleteCount: 0, inserts: [0] }])
+    logB.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    logB.compact()
+
+    // Both clients re-emit A's txs
+    const docC = new Y.Doc()
+    Y.applyUpdate(docC, Y.encodeStateAsUpdate(docB))
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docC))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+
+    expect(logA.getHistory().some((e) => e.outcome === "deduplicated")).toBe(true)
+    expect(logA.getStateAt(txKey)).toStrictEqual({ list: [1], b: 2 })
+    expect(logA.getStateAtTime(Number.POSITIVE_INFINITY)).toStrictEqual(logA.getState())
+    expect(logA.getState()).toStrictEqual({ list: [0, 1], b: 2 })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, getSortedTxsSymbol } from "../src/createStateSyncLog"
+
+describe("Tx Metadata", () => {
+  it("stores metadata with the tx without affecting the state", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    const meta = { userId: "u1", label: "Set a", correlationId: "c1" }
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "a", value: 1 }], { meta })
+
+    expect(log.getState()).toStrictEqual({ a: 1 })
+    expect(doc.getMap<any>("state-sync-log-tx").get(txKey).meta).toStrictEqual(meta)
+  })
+
+  it("passes applied txs with their metadata to subscribers", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: (state) => state.a !== -1,
+    })
+    const spy = vi.fn()
+    log.subscribe(spy)
+
+    const ops = [{ kind: "set", path: [], key: "a", value: 1 }] as const
+    const { txKey } = log.emit([...ops], { meta: { label: "Set a" } })
+
+    const [, , getAppliedTxs] = spy.mock.lastCall!
+    expect(getAppliedTxs()).toStrictEqual([
+      { txKey, ops, meta: { label: "Set a" }, stateBefore: {} },
+    ])
+
+    // Rejected txs are not reported as applied
+    log.emit([{ kind: "set", path: [], key: "a", value: -1 }], { meta: { label: "Bad" } })
+    const [, , getAppliedTxs2] = spy.mock.lastCall!
+    expect(getAppliedTxs2()).toStrictEqual([])
+
+    // Txs without metadata
+    log.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    const [, , getAppliedTxs3] = spy.mock.lastCall!
+    expect(getAppliedTxs3()).toMatchObject([{ meta: undefined }])
+  })
+
+  it("only reports newly applied txs after a full recalculation", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    // A's tx sorts before B's tx (same clock, lower client id first)
+    const { txKey: keyA } = logA.emit([{ kind: "set", path: [], key: "a", value: 1 }], {
+      meta: { by: "A" },
+    })
+    const { txKey: keyB } = logB.emit([{ kind: "set", path: [], key: "b", value: 2 }], {
+      meta: { by: "B" },
+    })
+    expect(keyB > keyA).toBe(true)
+
+    const spy = vi.fn()
+    logB.subscribe(spy)
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+
+    // A's tx is inserted before B's already applied tx, forcing a full recalculation
+    const [state, , getAppliedTxs] = spy.mock.lastCall!
+    expect(state).toStrictEqual({ a: 1, b: 2 })
+    expect(getAppliedTxs().map((tx: any) => tx.meta)).toStrictEqual([{ by: "A" }])
+  })
+
+  it("preserves metadata when a tx is re-emitted", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    const { txKey } = logA.emit([{ kind: "set", path: [], key: "a", value: 1 }], {
+      meta: { label: "Set a" },
+    })
+    logB.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    logB.compact()
+
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+
+    for (const log of [logA, logB]) {
+      const [entry] = log[getSortedTxsSymbol]()
+      expect(entry.txTimestampKey).not.toBe(txKey)
+      expect(entry.dedupTxTimestampKey).toBe(txKey)
+      expect(entry.txRecord.meta).toStrictEqual({ label: "Set a" })
+    }
+  })
+})
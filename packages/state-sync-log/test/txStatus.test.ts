@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog } from "../src/index"
+
+describe("Tx Lifecycle", () => {
+  it("emit returns a handle with the tx key", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, clientId: "A", retentionWindowMs: undefined })
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+
+    expect(doc.getMap("state-sync-log-tx").has(txKey)).toBe(true)
+    expect(log.getTxStatus(txKey)).toBe("applied")
+  })
+
+  it("reports rejected txs", async () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: (state) => state.count === undefined || state.count >= 0,
+    })
+
+    const { txKey: validKey } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    const { txKey: invalidKey } = log.emit([{ kind: "set", path: [], key: "count", value: -1 }])
+    const { txKey: failingKey } = log.emit([{ kind: "set", path: ["missing"], key: "x", value: 1 }])
+
+    expect(log.getTxStatus(validKey)).toBe("applied")
+    expect(log.getTxStatus(invalidKey)).toBe("rejected")
+    expect(log.getTxStatus(failingKey)).toBe("rejected")
+    await expect(log.whenTxSettled(invalidKey)).resolves.toBe("rejected")
+  })
+
+  it("treats empty txs as applied", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    const { txKey } = log.emit([])
+    expect(log.getTxStatus(txKey)).toBe("applied")
+  })
+
+  it("reports pending txs emitted inside an outer Yjs transaction", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    let txKey = ""
+    doc.transact(() => {
+      txKey = log.emit([{ kind: "set", path: [], key: "a", value: 1 }]).txKey
+      expect(log.getTxStatus(txKey)).toBe("pending")
+    })
+
+    expect(log.getTxStatus(txKey)).toBe("applied")
+  })
+
+  it("finalizes txs on compaction and settles waiters", async () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, clientId: "A", retentionWindowMs: undefined })
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    const settled = log.whenTxSettled(txKey)
+
+    expect(log.getPendingLocalTxs()).toStrictEqual([txKey])
+
+    log.compact()
+
+    expect(log.getTxStatus(txKey)).toBe("finalized")
+    expect(log.getPendingLocalTxs()).toStrictEqual([])
+    await expect(settled).resolves.toBe("finalized")
+  })
+
+  it("keeps tracking txs re-emitted to a new epoch by their original key", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+    })
+
+    // A emits while B compacts an epoch that does not include A's tx
+    const { txKey } = logA.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    logB.emit([{ kind: "set", path: [], key: "b", value: 2 }])
+    logB.compact()
+
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+
+    // A's tx was re-emitted to the active epoch with a new physical key
+    expect(docA.getMap("state-sync-log-tx").has(txKey)).toBe(false)
+    expect(logA.getTxStatus(txKey)).toBe("applied")
+    expect(logB.getTxStatus(txKey)).toBe("applied")
+    expect(logA.getPendingLocalTxs()).toStrictEqual([txKey])
+    expect(logB.getPendingLocalTxs()).toStrictEqual([])
+  })
+
+  it("returns unknown for txs not in the log", async () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    const txKey = "0;1;someone;0"
+    expect(log.getTxStatus(txKey)).toBe("unknown")
+    await expect(log.whenTxSettled(txKey)).resolves.toBe("unknown")
+  })
+
+  it("rejects waiters on dispose", async () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+
+    const { txKey } = log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    const settled = log.whenTxSettled(txKey)
+
+    log.dispose()
+
+    await expect(settled).rejects.toThrow("StateSyncLog has been disposed")
+  })
+})
@@ -0,0 +1,270 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyTxImmutable } from "../src/draft"
+import { createStateSyncLog, createUndoManager, type Op } from "../src/index"
+import { computeInverseOps } from "../src/inverseOps"
+
+function createClients() {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({ yDoc: docA, clientId: "A", retentionWindowMs: undefined })
+  const logB = createStateSyncLog<any>({ yDoc: docB, clientId: "B", retentionWindowMs: undefined })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+describe("computeInverseOps", () => {
+  const cases: [string, any, Op[]][] = [
+    ["set new key", { a: 1 }, [{ kind: "set", path: [], key: "b", value: 2 }]],
+    ["set existing key", { a: 1 }, [{ kind: "set", path: [], key: "a", value: 2 }]],
+    ["delete", { a: { b: 1 } }, [{ kind: "delete", path: ["a"], key: "b" }]],
+    ["delete missing key", { a: 1 }, [{ kind: "delete", path: [], key: "b" }]],
+    ["array set", { l: [1, 2] }, [{ kind: "set", path: ["l"], key: 1, value: 3 }]],
+    ["array append", { l: [1, 2] }, [{ kind: "set", path: ["l"], key: "2", value: 3 }]],
+    ["array truncate", { l: [1, 2, 3] }, [{ kind: "set", path: ["l"], key: "length", value: 1 }]],
+    [
+      "splice",
+      { l: [1, 2, 3] },
+      [{ kind: "splice", path: ["l"], index: 1, deleteCount: 5, inserts: [4, 5] }],
+    ],
+    ["addToSet", { l: [1] }, [{ kind: "addToSet", path: ["l"], value: 2 }]],
+    [
+      "deleteFromSet",
+      { l: [{ x: 1 }, 2, { x: 1 }] },
+      [{ kind: "deleteFromSet", path: ["l"], value: { x: 1 } }],
+    ],
+    [
+      "move within array",
+      { l: [1, 2, 3] },
+      [{ kind: "move", fromPath: ["l"], fromKey: 0, path: ["l"], key: 9 }],
+    ],
+    [
+      "move between objects (overwriting)",
+      { a: { x: 1 }, b: { x: 2 } },
+      [{ kind: "move", fromPath: ["a"], fromKey: "x", path: ["b"], key: "x" }],
+    ],
+    [
+      "move from array into object (overwriting)",
+      { l: [1, 2], o: { k: 0 } },
+      [{ kind: "move", fromPath: ["l"], fromKey: 0, path: ["o"], key: "k" }],
+    ],
+    [
+      "copy into array",
+      { l: [{ x: 1 }] },
+      [{ kind: "copy", fromPath: ["l"], fromKey: 0, path: ["l"], key: 0 }],
+    ],
+    [
+      "copy into object (overwriting)",
+      { a: 1, b: 2 },
+      [{ kind: "copy", fromPath: [], fromKey: "a", path: [], key: "b" }],
+    ],
+    [
+      "move then modify the moved value",
+      { a: { x: { v: 1 } }, b: {} },
+      [
+        { kind: "set", path: ["a", "x"], key: "v", value: 2 },
+        { kind: "move", fromPath: ["a"], fromKey: "x", path: ["b"], key: "x" },
+        { kind: "set", path: ["b", "x"], key: "v", value: 3 },
+      ],
+    ],
+    ["increment (clamped)", { n: 1 }, [{ kind: "increment", path: [], key: "n", by: -5, min: 0 }]],
+    ["increment missing key", {}, [{ kind: "increment", path: [], key: "n", by: 1 }]],
+    [
+      "updateWhere",
+      { l: [{ done: true, a: 1 }, { done: false }, { done: true }] },
+      [
+        {
+          kind: "updateWhere",
+          path: ["l"],
+          where: { done: true },
+          set: { a: 2 },
+          delete: ["done"],
+        },
+      ],
+    ],
+    [
+      "stringSplice",
+      { s: "hello world" },
+      [{ kind: "stringSplice", path: [], key: "s", index: 6, deleteCount: 9, insert: "there" }],
+    ],
+    ["replace root", { a: [1] }, [{ kind: "replace", value: [{ b: 1 }] }]],
+    [
+      "dependent ops",
+      { a: {} },
+      [
+        { kind: "set", path: ["a"], key: "b", value: [] },
+        { kind: "splice", path: ["a", "b"], index: 0, deleteCount: 0, inserts: [1, 2] },
+        { kind: "set", path: ["a"], key: "b", value: "x" },
+      ],
+    ],
+  ]
+
+  it.each(cases)("%s", (_name, state, ops) => {
+    const { inverseOps, stateAfter } = computeInverseOps(state, ops)
+    expect(stateAfter).toStrictEqual(applyTxImmutable(state, { ops }, undefined))
+    expect(applyTxImmutable(stateAfter, { ops: inverseOps }, undefined)).toStrictEqual(state)
+  })
+
+  it("returns no ops for no-op changes", () => {
+    expect(
+      computeInverseOps({ l: [1] }, [{ kind: "addToSet", path: ["l"], value: 1 }]).inverseOps
+    ).toStrictEqual([])
+  })
+})
+
+describe("UndoManager", () => {
+  it("undoes and redoes local txs in order", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    const undoManager = createUndoManager(log)
+
+    log.emit([{ kind: "set", path: [], key: "list", value: [] }])
+    log.emit([{ kind: "splice", path: ["list"], index: 0, deleteCount: 0, inserts: ["a", "b"] }])
+    log.emit([{ kind: "set", path: ["list"], key: 0, value: "A" }])
+    expect(log.getState()).toStrictEqual({ list: ["A", "b"] })
+
+    expect(undoManager.undo()).toMatchObject({ status: "applied", skippedCount: 0 })
+    expect(log.getState()).toStrictEqual({ list: ["a", "b"] })
+    undoManager.undo()
+    expect(log.getState()).toStrictEqual({ list: [] })
+    undoManager.undo()
+    expect(log.getState()).toStrictEqual({})
+
+    expect(undoManager.canUndo()).toBe(false)
+    expect(undoManager.undo()).toStrictEqual({
+      status: "empty",
+      txKey: undefined,
+      rejection: undefined,
+      skippedCount: 0,
+    })
+
+    undoManager.redo()
+    undoManager.redo()
+    expect(log.getState()).toStrictEqual({ list: ["a", "b"] })
+    expect(undoManager.canRedo()).toBe(true)
+
+    // A new change clears the redo stack
+    log.emit([{ kind: "set", path: [], key: "other", value: 1 }])
+    expect(undoManager.canRedo()).toBe(false)
+    undoManager.undo()
+    expect(log.getState()).toStrictEqual({ list: ["a", "b"] })
+  })
+
+  it("emits undos as regular txs that replicate", () => {
+    const { logA, logB, sync } = createClients()
+    const undoManager = createUndoManager(logA)
+
+    logA.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    sync()
+    const { txKey } = undoManager.undo()
+    sync()
+
+    expect(logB.getState()).toStrictEqual({})
+    expect(logA.getTxStatus(txKey!)).toBe("applied")
+  })
+
+  it("does not record remote txs", () => {
+    const { logA, logB, sync } = createClients()
+    const undoManager = createUndoManager(logA)
+
+    logB.emit([{ kind: "set", path: [], key: "b", value: 1 }])
+    sync()
+
+    expect(logA.getState()).toStrictEqual({ b: 1 })
+    expect(undoManager.canUndo()).toBe(false)
+  })
+
+  it("skips entries whose paths were changed by other clients", () => {
+    const { logA, logB, sync } = createClients()
+    const undoManager = createUndoManager(logA)
+
+    logA.emit([{ kind: "set", path: [], key: "x", value: 1 }])
+    logA.emit([{ kind: "set", path: [], key: "y", value: 1 }])
+    sync()
+    logB.emit([{ kind: "set", path: [], key: "y", value: 2 }])
+    sync()
+
+    // The change to y is skipped, the change to x is undone
+    expect(undoManager.undo()).toMatchObject({ status: "applied", skippedCount: 1 })
+    expect(logA.getState()).toStrictEqual({ y: 2 })
+  })
+
+  it("skips entries whose container was removed by other clients", () => {
+    const { logA, logB, sync } = createClients()
+    const undoManager = createUndoManager(logA)
+
+    logA.emit([{ kind: "set", path: [], key: "task", value: { title: "a" } }])
+    undoManager.clear()
+    logA.emit([{ kind: "delete", path: ["task"], key: "title" }])
+    sync()
+    logB.emit([{ kind: "delete", path: [], key: "task" }])
+    sync()
+
+    expect(undoManager.undo()).toMatchObject({ status: "empty", skippedCount: 1 })
+    expect(logA.getState()).toStrictEqual({})
+  })
+
+  it("undoes entries when other clients only changed unrelated paths", () => {
+    const { logA, logB, sync } = createClients()
+    const undoManager = createUndoManager(logA)
+
+    logA.emit([{ kind: "set", path: [], key: "list", value: [1] }])
+    logA.emit([{ kind: "addToSet", path: ["list"], value: 2 }])
+    sync()
+    logB.emit([{ kind: "set", path: [], key: "other", value: true }])
+    sync()
+
+    undoManager.undo()
+    expect(logA.getState()).toStrictEqual({ list: [1], other: true })
+  })
+
+  it("reports undos rejected by the validator", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const validate = (state: any) => (state.a ?? 0) + (state.b ?? 0) <= 10
+    const logA = createStateSyncLog<any>({
+      yDoc: docA,
+      clientId: "A",
+      retentionWindowMs: undefined,
+      validate,
+    })
+    const logB = createStateSyncLog<any>({
+      yDoc: docB,
+      clientId: "B",
+      retentionWindowMs: undefined,
+      validate: (state) => validate(state) || { message: "Budget exceeded" },
+    })
+    const undoManager = createUndoManager(logB)
+
+    logB.emit([{ kind: "set", path: [], key: "b", value: 5 }])
+    logB.emit([{ kind: "set", path: [], key: "b", value: 0 }])
+    logA.emit([{ kind: "set", path: [], key: "a", value: 10 }])
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+
+    const result = undoManager.undo()
+    expect(result).toMatchObject({
+      status: "rejected",
+      rejection: { kind: "validation", message: "Budget exceeded" },
+      skippedCount: 0,
+    })
+    expect(logB.getTxStatus(result.txKey!)).toBe("rejected")
+    expect(logB.getState()).toStrictEqual({ a: 10, b: 0 })
+    expect(undoManager.canRedo()).toBe(false)
+  })
+
+  it("stops recording once disposed", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    const undoManager = createUndoManager(log)
+
+    log.emit([{ kind: "set", path: [], key: "a", value: 1 }])
+    undoManager.dispose()
+    expect(undoManager.canUndo()).toBe(false)
+
+    log.emit([{ kind: "set", path: [], key: "b", value: 1 }])
+    expect(undoManager.canUndo()).toBe(false)
+  })
+})
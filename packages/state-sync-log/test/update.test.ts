@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, TxRejectedError, type ValidationContext } from "../src/index"
+
+type State = { count?: number; list?: { title: string; done: boolean }[] }
+
+function createLog() {
+  const doc = new Y.Doc()
+  return createStateSyncLog<State>({
+    yDoc: doc,
+    retentionWindowMs: undefined,
+    validate: (state) => (state.count ?? 0) >= 0,
+  })
+}
+
+describe("update", () => {
+  it("emits the ops produced by the recipe", () => {
+    const log = createLog()
+
+    const result = log.update((draft) => {
+      draft.count = 1
+      draft.list = [{ title: "a", done: false }]
+    })
+
+    expect(result.ops).toStrictEqual([
+      { kind: "set", path: [], key: "count", value: 1 },
+      { kind: "set", path: [], key: "list", value: [{ title: "a", done: false }] },
+    ])
+    expect(result.accepted).toBe(true)
+    expect(result.nextState).toStrictEqual({ count: 1, list: [{ title: "a", done: false }] })
+    expect(result.nextState).toStrictEqual(log.getState())
+    expect(log.getTxStatus(result.txKey!)).toBe("applied")
+  })
+
+  it("runs against the latest state", () => {
+    const log = createLog()
+    log.update((draft) => {
+      draft.list = [{ title: "a", done: false }]
+    })
+
+    log.update((draft) => {
+      draft.list![0].done = true
+    })
+    expect(log.getState().list).toStrictEqual([{ title: "a", done: true }])
+  })
+
+  it("reports txs rejected by the validator", () => {
+    const log = createLog()
+    log.update((draft) => {
+      draft.count = 1
+    })
+
+    const result = log.update((draft) => {
+      draft.count = -1
+    })
+    expect(result.accepted).toBe(false)
+    expect(result.nextState).toStrictEqual({ count: 1 })
+    expect(log.getTxRejection(result.txKey!)).toMatchObject({ kind: "validation" })
+  })
+
+  it("reports the local verdict inside an outer transaction", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<State>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: (state) => (state.count ?? 0) <= 5,
+    })
+
+    doc.transact(() => {
+      const rejected = log.update((draft) => {
+        draft.count = 10
+      })
+      expect(rejected.accepted).toBe(false)
+      expect(rejected.nextState).toStrictEqual({})
+
+      const accepted = log.update((draft) => {
+        draft.count = 3
+      })
+      expect(accepted.accepted).toBe(true)
+      expect(accepted.nextState).toStrictEqual({ count: 3 })
+    })
+    expect(log.getState()).toStrictEqual({ count: 3 })
+  })
+
+  it("throws without emitting when strict and rejected", () => {
+    const log = createLog()
+    expect(() =>
+      log.update(
+        (draft) => {
+          draft.count = -1
+        },
+        { strict: true }
+      )
+    ).toThrow(TxRejectedError)
+    expect(log.getHistory()).toHaveLength(0)
+  })
+
+  it("validates with the tx key and timestamp it emits", () => {
+    const contexts: ValidationContext<State>[] = []
+    const log = createStateSyncLog<State>({
+      yDoc: new Y.Doc(),
+      retentionWindowMs: undefined,
+      validate: (_state, context) => {
+        contexts.push(context)
+        return true
+      },
+    })
+
+    const { txKey } = log.update((draft) => {
+      draft.count = 1
+    })
+    const { txKey: strictTxKey } = log.emit([{ kind: "set", path: [], key: "count", value: 2 }], {
+      strict: true,
+    })
+
+    // Previewed, then applied
+    expect(contexts.map((context) => context.txKey)).toStrictEqual([
+      txKey,
+      txKey,
+      strictTxKey,
+      strictTxKey,
+    ])
+    expect(contexts[0].txTimestamp).toStrictEqual(contexts[1].txTimestamp)
+    expect(contexts[2].txTimestamp).toStrictEqual(contexts[3].txTimestamp)
+  })
+
+  it("does nothing when the recipe makes no changes", () => {
+    const log = createLog()
+    const state = log.getState()
+
+    const result = log.update((draft) => {
+      if (draft.count !== undefined) {
+        draft.count++
+      }
+    })
+    expect(result).toStrictEqual({ ops: [], nextState: state, accepted: true, txKey: undefined })
+    expect(log.getHistory()).toHaveLength(0)
+  })
+
+  it("passes the options to createOps and emit", () => {
+    const log = createLog()
+    log.update((draft) => {
+      draft.count = 0
+    })
+
+    const { ops, txKey } = log.update(
+      (draft) => {
+        draft.count = draft.count! + 1
+      },
+      { generateTests: true, meta: { label: "increment" } }
+    )
+    expect(ops[0]).toStrictEqual({ kind: "test", path: [], key: "count", value: 0 })
+    expect(log.getHistory()[1]).toMatchObject({ txKey, meta: { label: "increment" } })
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { applyOps, createStateSyncLog, type Op } from "../src/index"
+
+function createClients() {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  const logA = createStateSyncLog<any>({ yDoc: docA, clientId: "A", retentionWindowMs: undefined })
+  const logB = createStateSyncLog<any>({ yDoc: docB, clientId: "B", retentionWindowMs: undefined })
+  const sync = () => {
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+  }
+  return { logA, logB, sync }
+}
+
+describe("updateWhere", () => {
+  it.each([
+    {
+      desc: "sets fields of the matching elements",
+      base: [{ done: true }, { done: false }, { done: true, archived: false }],
+      op: { kind: "updateWhere", path: [], where: { done: true }, set: { archived: true } },
+      expected: [{ done: true, archived: true }, { done: false }, { done: true, archived: true }],
+    },
+    {
+      desc: "deletes fields of the matching elements",
+      base: [
+        { id: 1, draft: "x" },
+        { id: 2, draft: "y" },
+      ],
+      op: { kind: "updateWhere", path: [], where: { id: 2 }, delete: ["draft"] },
+      expected: [{ id: 1, draft: "x" }, { id: 2 }],
+    },
+    {
+      desc: "matches deeply equal fields",
+      base: [{ tags: ["a"] }, { tags: ["a", "b"] }],
+      op: { kind: "updateWhere", path: [], where: { tags: ["a"] }, set: { hit: true } },
+      expected: [{ tags: ["a"], hit: true }, { tags: ["a", "b"] }],
+    },
+    {
+      desc: "matches every object with an empty predicate",
+      base: [{ a: 1 }, 2, [3]],
+      op: { kind: "updateWhere", path: [], where: {}, set: { b: null } },
+      expected: [{ a: 1, b: null }, 2, [3]],
+    },
+    {
+      desc: "does nothing when no element matches",
+      base: [{ done: false }],
+      op: { kind: "updateWhere", path: [], where: { done: true }, set: { archived: true } },
+      expected: [{ done: false }],
+    },
+  ] as {
+    desc: string
+    base: any[]
+    op: Extract<Op, { kind: "updateWhere" }>
+    expected: any[]
+  }[])("$desc", ({ base, op, expected }) => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "list", value: base }])
+    log.emit([{ ...op, path: ["list"] }])
+    expect(log.getState().list).toStrictEqual(expected)
+
+    const target = { list: structuredClone(base) }
+    applyOps([{ ...op, path: ["list"] }], target)
+    expect(target.list).toStrictEqual(expected)
+  })
+
+  it("does not share set values between elements", () => {
+    const target = { list: [{ id: 1 }, { id: 2 }] }
+    const op: Op = { kind: "updateWhere", path: ["list"], where: {}, set: { meta: { n: 0 } } }
+    applyOps([op], target, { cloneValues: false })
+    expect(target.list[0]).not.toBe(target.list[1])
+    expect((target.list[0] as any).meta).not.toBe((target.list[1] as any).meta)
+  })
+
+  it("rejects the tx on a non-array container", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({ yDoc: doc, retentionWindowMs: undefined })
+    log.emit([{ kind: "set", path: [], key: "list", value: {} }])
+
+    const { txKey } = log.emit([{ kind: "updateWhere", path: ["list"], where: {}, set: { a: 1 } }])
+    expect(log.getTxRejection(txKey)).toMatchObject({ kind: "error", opIndex: 0 })
+  })
+
+  it("covers elements added by concurrent txs", () => {
+    const { logA, logB, sync } = createClients()
+
+    logA.emit([{ kind: "set", path: [], key: "tasks", value: [{ id: "a", done: true }] }])
+    sync()
+    // B adds a done task while A (who has not seen it) archives all done tasks.
+    // A's tx is ordered after B's, since A emitted another tx before it
+    logA.emit([{ kind: "set", path: [], key: "filter", value: "done" }])
+    logA.emit([
+      { kind: "updateWhere", path: ["tasks"], where: { done: true }, set: { archived: true } },
+    ])
+    logB.emit([
+      {
+        kind: "splice",
+        path: ["tasks"],
+        index: 0,
+        deleteCount: 0,
+        inserts: [{ id: "b", done: true }],
+      },
+    ])
+    sync()
+
+    const expected = {
+      filter: "done",
+      tasks: [
+        { id: "b", done: true, archived: true },
+        { id: "a", done: true, archived: true },
+      ],
+    }
+    expect(logA.getState()).toStrictEqual(expected)
+    expect(logB.getState()).toStrictEqual(expected)
+  })
+})
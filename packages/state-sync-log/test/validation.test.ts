@@ -123,4 +123,37 @@ describe("Validation", () => {
     log.emit([{ kind: "set", path: [], key: "trigger", value: "error" }])
     expect(log.getState()).toStrictEqual({ safe: 1 }) // State unchanged
   })
+
+  it("surfaces rejection reasons per tx", () => {
+    const doc = new Y.Doc()
+    const log = createStateSyncLog<any>({
+      yDoc: doc,
+      retentionWindowMs: undefined,
+      validate: (state) =>
+        state.count === undefined ||
+        state.count >= 0 || {
+          ruleId: "nonNegativeCount",
+          message: "count must not be negative",
+          path: ["count"],
+        },
+    })
+
+    const { txKey: validKey } = log.emit([{ kind: "set", path: [], key: "count", value: 1 }])
+    const { txKey: invalidKey } = log.emit([{ kind: "set", path: [], key: "count", value: -1 }])
+    const { txKey: failingKey } = log.emit([{ kind: "set", path: ["missing"], key: "x", value: 1 }])
+
+    expect(log.getState()).toStrictEqual({ count: 1 })
+    expect(log.getTxRejection(validKey)).toBeUndefined()
+    expect(log.getTxRejection(invalidKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "nonNegativeCount",
+      message: "count must not be negative",
+      path: ["count"],
+    })
+    expect(log.getTxRejection(failingKey)).toMatchObject({
+      kind: "error",
+      message: 'Property "missing" does not exist',
+      opIndex: 0,
+    })
+  })
 })
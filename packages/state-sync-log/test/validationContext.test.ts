@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import {
+  createStateSyncLog,
+  type ValidateFn,
+  type ValidationContext,
+  type ValidationResult,
+} from "../src/index"
+
+type Status = "todo" | "doing" | "done"
+type State = { cards?: { [id: string]: { owner: string; status: Status } } }
+
+const allowedTransitions: Record<Status, Status[]> = {
+  todo: ["doing"],
+  doing: ["todo", "done"],
+  done: [],
+}
+
+// Cards can only move through the allowed transitions and only their owner may delete them
+const validate: ValidateFn<State> = (state, { prevState, clientId }): ValidationResult => {
+  for (const [id, prevCard] of Object.entries(prevState.cards ?? {})) {
+    const card = state.cards?.[id]
+    if (!card) {
+      if (prevCard.owner !== clientId) {
+        return { ruleId: "owner", message: "Only the owner may delete a card", path: ["cards", id] }
+      }
+    } else if (card.status !== prevCard.status) {
+      if (!allowedTransitions[prevCard.status].includes(card.status)) {
+        return { ruleId: "transition", message: `${prevCard.status} -> ${card.status}` }
+      }
+    }
+  }
+  return true
+}
+
+function createClient(doc: Y.Doc, clientId: string) {
+  return createStateSyncLog<State>({ yDoc: doc, clientId, retentionWindowMs: undefined, validate })
+}
+
+function syncDocs(docA: Y.Doc, docB: Y.Doc) {
+  Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA))
+  Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB))
+}
+
+describe("validation context", () => {
+  it("passes the state before the tx", () => {
+    const log = createClient(new Y.Doc(), "A")
+    log.emit([
+      { kind: "set", path: [], key: "cards", value: { c1: { owner: "A", status: "todo" } } },
+    ])
+
+    const { txKey } = log.emit([
+      { kind: "set", path: ["cards", "c1"], key: "status", value: "done" },
+    ])
+    expect(log.getTxRejection(txKey)).toMatchObject({
+      ruleId: "transition",
+      message: "todo -> done",
+    })
+
+    log.emit([{ kind: "set", path: ["cards", "c1"], key: "status", value: "doing" }])
+    log.emit([{ kind: "set", path: ["cards", "c1"], key: "status", value: "done" }])
+    expect(log.getState().cards!.c1.status).toBe("done")
+  })
+
+  it("passes the author of the tx", () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const logA = createClient(docA, "A")
+    const logB = createClient(docB, "B")
+    logA.emit([
+      { kind: "set", path: [], key: "cards", value: { c1: { owner: "A", status: "todo" } } },
+    ])
+    syncDocs(docA, docB)
+
+    const { txKey } = logB.emit([{ kind: "delete", path: ["cards"], key: "c1" }])
+    syncDocs(docA, docB)
+
+    // Both clients reach the same verdict
+    expect(logA.getTxRejection(txKey)).toMatchObject({ ruleId: "owner" })
+    expect(logB.getTxRejection(txKey)).toMatchObject({ ruleId: "owner" })
+
+    logA.emit([{ kind: "delete", path: ["cards"], key: "c1" }])
+    syncDocs(docA, docB)
+    expect(logB.getState()).toStrictEqual({ cards: {} })
+  })
+
+  it("passes the tx information", () => {
+    const contexts: ValidationContext<State>[] = []
+    const log = createStateSyncLog<State>({
+      yDoc: new Y.Doc(),
+      clientId: "A",
+      retentionWindowMs: undefined,
+      validate: (_state, context) => {
+        contexts.push(context)
+        return true
+      },
+    })
+
+    const ops = [{ kind: "set", path: [], key: "cards", value: {} }] as const
+    const { txKey } = log.emit(ops, { meta: { label: "init" } })
+
+    expect(contexts).toHaveLength(1)
+    const [{ prevState, txTimestamp, ...context }] = contexts
+    expect(prevState).toStrictEqual({})
+    expect(context).toStrictEqual({ ops, txKey, clientId: "A", meta: { label: "init" } })
+    expect(txTimestamp).toMatchObject({ clientId: "A", clock: 1 })
+  })
+
+  it("replays txs with the same context when time traveling", () => {
+    const log = createClient(new Y.Doc(), "A")
+    const { txKey: k1 } = log.emit([
+      { kind: "set", path: [], key: "cards", value: { c1: { owner: "A", status: "todo" } } },
+    ])
+    const { txKey: k2 } = log.emit([
+      { kind: "set", path: ["cards", "c1"], key: "status", value: "done" },
+    ])
+    const { txKey: k3 } = log.emit([
+      { kind: "set", path: ["cards", "c1"], key: "status", value: "doing" },
+    ])
+
+    expect(log.getStateAt(k2)).toBe(log.getStateAt(k1))
+    expect(log.getStateAt(k3)).toStrictEqual({ cards: { c1: { owner: "A", status: "doing" } } })
+  })
+
+  it("passes the local client and the would-be timestamp to previews", () => {
+    const log = createClient(new Y.Doc(), "A")
+    log.emit([
+      { kind: "set", path: [], key: "cards", value: { c1: { owner: "B", status: "todo" } } },
+    ])
+
+    expect(log.preview([{ kind: "delete", path: ["cards"], key: "c1" }]).rejection).toMatchObject({
+      ruleId: "owner",
+    })
+    expect(() =>
+      log.emit([{ kind: "delete", path: ["cards"], key: "c1" }], { strict: true })
+    ).toThrow("Only the owner may delete a card")
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import * as Y from "yjs"
+import { createStateSyncLog, createValidationRules, type ValidationRule } from "../src/index"
+
+type State = {
+  columns: { [id: string]: string[] }
+  users: { name: string }[]
+}
+
+const initialState: State = { columns: { todo: [], doing: [] }, users: [] }
+
+function createLog(rules: ValidationRule<State>[]) {
+  const registry = createValidationRules<State>(rules)
+  const log = createStateSyncLog<State>({
+    yDoc: new Y.Doc(),
+    retentionWindowMs: undefined,
+    validate: registry.validate,
+  })
+  log.emit([{ kind: "replace", value: initialState }])
+  return { log, registry }
+}
+
+describe("validation rules", () => {
+  it("rejects txs with the id of the failing rule", () => {
+    const { log } = createLog([
+      {
+        id: "wipLimit",
+        scopes: [["columns", "doing"]],
+        validate: (state) => state.columns.doing.length <= 1 || { message: "WIP limit reached" },
+      },
+      {
+        id: "userName",
+        scopes: ["/users"],
+        validate: (state) => state.users.every((user) => user.name !== ""),
+      },
+    ])
+
+    log.emit([
+      { kind: "splice", path: ["columns", "doing"], index: 0, deleteCount: 0, inserts: ["a"] },
+    ])
+    const { txKey } = log.emit([
+      { kind: "splice", path: ["columns", "doing"], index: 0, deleteCount: 0, inserts: ["b"] },
+    ])
+    expect(log.getTxRejection(txKey)).toStrictEqual({
+      kind: "validation",
+      ruleId: "wipLimit",
+      message: "WIP limit reached",
+    })
+
+    const { txKey: txKey2 } = log.emit([{ kind: "addToSet", path: ["users"], value: { name: "" } }])
+    expect(log.getTxRejection(txKey2)).toStrictEqual({ kind: "validation", ruleId: "userName" })
+  })
+
+  it("only runs the rules whose scopes intersect the touched paths", () => {
+    const runs: string[] = []
+    const rule = (id: string, scopes?: (string[] | string)[]): ValidationRule<State> => ({
+      id,
+      scopes,
+      validate: () => {
+        runs.push(id)
+        return true
+      },
+    })
+    const { log } = createLog([
+      rule("doing", [["columns", "doing"]]),
+      rule("columns", ["/columns"]),
+      rule("users", ["/users", "/columns/todo"]),
+      rule("global"),
+    ])
+
+    runs.length = 0
+    log.emit([{ kind: "set", path: ["columns"], key: "doing", value: ["a"] }])
+    expect(runs).toStrictEqual(["doing", "columns", "global"])
+
+    runs.length = 0
+    log.emit([{ kind: "set", path: [], key: "columns", value: {} }])
+    expect(runs).toStrictEqual(["doing", "columns", "users", "global"])
+
+    runs.length = 0
+    // Test ops touch nothing
+    log.emit([{ kind: "test", path: [], key: "users", value: [] }])
+    expect(runs).toStrictEqual(["global"])
+  })
+
+  it("rejects duplicated rule ids", () => {
+    const registry = createValidationRules<State>()
+    registry.add({ id: "a", validate: () => true })
+    expect(() => registry.add({ id: "a", validate: () => true })).toThrow(
+      'Validation rule "a" is already registered'
+    )
+    expect(registry.getRuleIds()).toStrictEqual(["a"])
+  })
+
+  it("does not accept rules once validation started", () => {
+    const { registry } = createLog([])
+    expect(() => registry.add({ id: "late", validate: () => false })).toThrow(
+      'Validation rule "late" cannot be added after validation started'
+    )
+  })
+})